@@ -4,28 +4,52 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { LanguageProvider } from "./contexts/LanguageContext";
+import { PriceProvider } from "./contexts/PriceContext";
+import { NetworkRoute } from "./components/NetworkRoute";
 import Index from "./pages/Index";
 import Dashboard from "./pages/Dashboard";
 import Transaction from "./pages/Transaction";
+import Ledger from "./pages/Ledger";
+import NFTDetails from "./pages/NFTDetails";
+import Dex from "./pages/Dex";
+import AMMPool from "./pages/AMMPool";
 import NotFound from "./pages/NotFound";
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <LanguageProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/dashboard" element={<Navigate to="/dashboard/default" replace />} />
-            <Route path="/dashboard/:address" element={<Dashboard />} />
-            <Route path="/transaction/:hash" element={<Transaction />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <PriceProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/dashboard" element={<Navigate to="/dashboard/default" replace />} />
+              <Route path="/dashboard/:address" element={<Dashboard />} />
+              <Route path="/transaction/:hash" element={<Transaction />} />
+              <Route path="/ledger/:index" element={<Ledger />} />
+              <Route path="/nft/:id" element={<NFTDetails />} />
+              <Route path="/dex/:base/:counter" element={<Dex />} />
+              <Route path="/amm/:account" element={<AMMPool />} />
+              <Route path="/amm/:asset/:asset2" element={<AMMPool />} />
+              <Route path="/:network" element={<NetworkRoute />}>
+                <Route index element={<Index />} />
+                <Route path="dashboard" element={<Navigate to="default" replace />} />
+                <Route path="dashboard/:address" element={<Dashboard />} />
+                <Route path="transaction/:hash" element={<Transaction />} />
+                <Route path="ledger/:index" element={<Ledger />} />
+                <Route path="nft/:id" element={<NFTDetails />} />
+                <Route path="dex/:base/:counter" element={<Dex />} />
+                <Route path="amm/:account" element={<AMMPool />} />
+                <Route path="amm/:asset/:asset2" element={<AMMPool />} />
+              </Route>
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </PriceProvider>
     </LanguageProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,35 @@
+import { Link } from "react-router-dom";
+import { formatAmount, shortenAddress, type Amount } from "@/services/xrpl";
+import { useNetwork } from "@/hooks/use-network";
+
+interface AmountDisplayProps {
+  amount?: Amount;
+  // Pre-formatted text for transactions cached before amounts were parsed.
+  fallback?: string;
+  showIssuer?: boolean;
+  fullIssuer?: boolean;
+  className?: string;
+}
+
+export const AmountDisplay = ({ amount, fallback, showIssuer = true, fullIssuer = false, className }: AmountDisplayProps) => {
+  const { path } = useNetwork();
+  const text = amount ? formatAmount(amount) : fallback ?? formatAmount(undefined);
+
+  return (
+    <span className={className}>
+      <span>{text}</span>
+      {showIssuer && amount?.kind === "iou" && amount.issuer && (
+        <span className="block text-xs font-normal text-gray-500">
+          issuer{" "}
+          <Link
+            to={path(`/dashboard/${amount.issuer}`)}
+            className="font-mono text-primary hover:underline break-all"
+            title={amount.issuer}
+          >
+            {fullIssuer ? amount.issuer : shortenAddress(amount.issuer)}
+          </Link>
+        </span>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,74 @@
+import { Link } from "react-router-dom";
+import { Scale } from "lucide-react";
+import {
+  decodeCurrencyCode,
+  formatIssuedValue,
+  groupBalanceChangesByAccount,
+  shortenAddress,
+  type BalanceChange
+} from "@/services/xrpl";
+import { useNetwork } from "@/hooks/use-network";
+
+const formatSigned = (change: BalanceChange) => {
+  const negative = change.value.startsWith("-");
+  const magnitude = negative ? change.value.slice(1) : change.value;
+  const text = change.currency === "XRP" ? magnitude : formatIssuedValue(magnitude);
+  return `${negative ? "−" : "+"}${text} ${decodeCurrencyCode(change.currency)}`;
+};
+
+export const BalanceChangeValue = ({ change, showIssuer = true }: { change: BalanceChange; showIssuer?: boolean }) => {
+  const { path } = useNetwork();
+  const negative = change.value.startsWith("-");
+
+  return (
+    <span className={`block ${negative ? "text-[#ea384c]" : "text-[#1EAEDB]"}`}>
+      <span className="font-bold">{formatSigned(change)}</span>
+      {change.isFee && <span className="ml-1 text-xs text-gray-500">fee</span>}
+      {showIssuer && change.issuer && (
+        <Link
+          to={path(`/dashboard/${change.issuer}`)}
+          className="ml-1 font-mono text-xs text-gray-500 hover:underline"
+          title={change.issuer}
+        >
+          {shortenAddress(change.issuer)}
+        </Link>
+      )}
+    </span>
+  );
+};
+
+export const BalanceChangesSection = ({ changes }: { changes: BalanceChange[] }) => {
+  const { path } = useNetwork();
+  if (changes.length === 0) return null;
+
+  const grouped = groupBalanceChangesByAccount(changes);
+
+  return (
+    <div className="p-4 bg-primary/5 rounded-lg">
+      <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+        <Scale className="h-4 w-4" />
+        Balance changes
+      </h3>
+      <div className="space-y-3">
+        {Array.from(grouped.entries()).map(([account, accountChanges]) => (
+          <div key={account} className="grid grid-cols-1 sm:grid-cols-2 gap-2 border-b last:border-b-0 pb-2">
+            <Link
+              to={path(`/dashboard/${account}`)}
+              className="font-mono text-sm text-primary hover:underline break-all"
+            >
+              {account}
+            </Link>
+            <div className="text-sm">
+              {accountChanges.map((change) => (
+                <BalanceChangeValue
+                  key={`${change.currency}-${change.issuer}-${change.isFee ? "fee" : "net"}`}
+                  change={change}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import { useFiatValue, usePrices } from "@/contexts/PriceContext";
+import { formatFiat } from "@/services/xrpl";
+
+interface FiatValueProps {
+  // "XRP" or "CODE.rIssuer", as returned by getPriceAssetKey.
+  asset?: string;
+  quantity?: number;
+  // ISO time to value at; omitted for the current value.
+  date?: string;
+  // Shown after the value, e.g. "now".
+  label?: string;
+  className?: string;
+}
+
+// Renders nothing until the active price source has a price for the asset.
+export const FiatValue = ({ asset, quantity, date, label, className = "text-xs text-gray-500" }: FiatValueProps) => {
+  const { settings } = usePrices();
+  const value = useFiatValue(asset, quantity, date);
+  if (value === undefined) return null;
+
+  return (
+    <span className={className} title={date ? `Value at ${date}` : "Current value"}>
+      ≈ {formatFiat(value, settings.currency)}
+      {label && ` ${label}`}
+    </span>
+  );
+};
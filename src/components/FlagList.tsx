@@ -0,0 +1,53 @@
+import type { ReactNode } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { DecodedFlag } from "@/services/xrpl";
+
+interface FlagListProps {
+  flags: DecodedFlag[];
+  icon?: ReactNode;
+  title: string;
+  emptyText?: string;
+}
+
+export const FlagList = ({ flags, icon, title, emptyText }: FlagListProps) => {
+  if (flags.length === 0 && !emptyText) return null;
+
+  return (
+    <div className="p-4 bg-primary/5 rounded-lg">
+      <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+        {icon}
+        {title}
+      </h3>
+      {flags.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {flags.map((flag) => (
+            <span
+              key={flag.name}
+              title={flag.description}
+              className={`px-2 py-1 rounded-full text-xs font-mono ${
+                flag.warning ? "bg-red-100 text-red-800" : "bg-gray-100 text-gray-800"
+              }`}
+            >
+              {flag.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const PartialPaymentWarning = () => (
+  <Alert variant="destructive">
+    <AlertTriangle className="h-4 w-4" />
+    <AlertTitle>Partial payment</AlertTitle>
+    <AlertDescription>
+      This payment has the tfPartialPayment flag set, so its Amount field is only an upper bound. What the recipient
+      actually received is the delivered amount, which can be far smaller. Never credit a payment based on Amount
+      alone.
+    </AlertDescription>
+  </Alert>
+);
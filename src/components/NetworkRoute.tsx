@@ -0,0 +1,13 @@
+import { Outlet, useParams } from "react-router-dom";
+import { getCustomEndpoint, isNetworkId } from "@/services/xrpl";
+import NotFound from "@/pages/NotFound";
+
+// Guards the /:network prefix so unknown first segments still fall through to 404.
+export const NetworkRoute = () => {
+  const { network } = useParams<{ network: string }>();
+  if (!isNetworkId(network)) {
+    return <NotFound />;
+  }
+  // Keyed on the endpoint so saving a new custom one remounts the page and reloads its data.
+  return <Outlet key={network === "custom" ? getCustomEndpoint() : network} />;
+};
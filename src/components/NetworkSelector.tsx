@@ -0,0 +1,89 @@
+import { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  NETWORK_IDS,
+  disconnectNetwork,
+  getCustomEndpoint,
+  getNetwork,
+  isValidEndpointUrl,
+  setCustomEndpoint,
+  type NetworkId
+} from "@/services/xrpl";
+import { toast } from "sonner";
+import { Network } from "lucide-react";
+
+export const NetworkSelector = () => {
+  const { networkId, switchNetwork } = useNetwork();
+  const [editingCustom, setEditingCustom] = useState(false);
+  const [endpoint, setEndpoint] = useState(getCustomEndpoint());
+
+  const handleChange = (value: string) => {
+    if (value === "custom") {
+      setEndpoint(getCustomEndpoint());
+      setEditingCustom(true);
+      return;
+    }
+    switchNetwork(value as NetworkId);
+  };
+
+  const saveCustomEndpoint = () => {
+    if (!isValidEndpointUrl(endpoint)) {
+      toast.error("Enter a ws:// or wss:// endpoint");
+      return;
+    }
+    if (endpoint.trim() !== getCustomEndpoint()) {
+      disconnectNetwork("custom");
+      setCustomEndpoint(endpoint);
+    }
+    setEditingCustom(false);
+    switchNetwork("custom");
+  };
+
+  return (
+    <Popover open={editingCustom} onOpenChange={setEditingCustom}>
+      <PopoverAnchor asChild>
+        <div>
+          <Select value={networkId} onValueChange={handleChange}>
+            <SelectTrigger className="w-[160px]">
+              <Network className="mr-2 h-4 w-4" />
+              <SelectValue placeholder="Select Network" />
+            </SelectTrigger>
+            <SelectContent>
+              {NETWORK_IDS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {getNetwork(id).name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </PopoverAnchor>
+      <PopoverContent align="end" className="space-y-2">
+        <label htmlFor="custom-endpoint" className="block text-sm font-medium">
+          rippled WebSocket endpoint
+        </label>
+        <Input
+          id="custom-endpoint"
+          value={endpoint}
+          onChange={(e) => setEndpoint(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") saveCustomEndpoint(); }}
+          className="font-mono"
+          placeholder="ws://localhost:6006"
+        />
+        <Button className="w-full" onClick={saveCustomEndpoint}>
+          Connect
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { DollarSign } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { usePrices } from "@/contexts/PriceContext";
+import {
+  PRICE_SOURCE_LABELS,
+  parsePriceFile,
+  validateXRPLAddress,
+  type PriceOracleRef,
+  type PriceSourceId
+} from "@/services/xrpl";
+
+const formatOracles = (oracles: PriceOracleRef[]) =>
+  oracles.map(({ account, documentId }) => `${account}:${documentId}`).join("\n");
+
+// One "rAccount:documentId" per line; null if any line is malformed.
+const parseOracles = (text: string): PriceOracleRef[] | null => {
+  const oracles: PriceOracleRef[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const [account, documentId] = trimmed.split(":");
+    const id = Number(documentId);
+    if (!validateXRPLAddress(account) || !Number.isInteger(id) || id < 0) return null;
+    oracles.push({ account, documentId: id });
+  }
+  return oracles;
+};
+
+export const PriceSourceSelector = () => {
+  const { settings, updateSettings } = usePrices();
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<PriceSourceId>(settings.source);
+  const [currency, setCurrency] = useState(settings.currency);
+  const [httpUrl, setHttpUrl] = useState(settings.httpUrl);
+  const [oracles, setOracles] = useState(formatOracles(settings.oracles));
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setSource(settings.source);
+      setCurrency(settings.currency);
+      setHttpUrl(settings.httpUrl);
+      setOracles(formatOracles(settings.oracles));
+      setFile(null);
+    }
+    setOpen(next);
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const text = await selected.text();
+    const table = parsePriceFile(text);
+    if (table.size === 0) {
+      toast.error("No prices found in that file");
+      return;
+    }
+    setFile({ name: selected.name, text });
+  };
+
+  const save = () => {
+    const parsedOracles = parseOracles(oracles);
+    if (!currency.trim()) {
+      toast.error("Enter a display currency");
+      return;
+    }
+    if (source === "oracle" && (!parsedOracles || parsedOracles.length === 0)) {
+      toast.error("Enter oracles as rAccount:documentId, one per line");
+      return;
+    }
+    if (source === "http" && !/^https?:\/\//.test(httpUrl)) {
+      toast.error("Enter an http:// or https:// URL");
+      return;
+    }
+    if (source === "file" && !file && !settings.fileName) {
+      toast.error("Choose a price file");
+      return;
+    }
+
+    updateSettings(
+      {
+        source,
+        currency: currency.trim().toUpperCase(),
+        httpUrl,
+        oracles: parsedOracles ?? settings.oracles,
+        fileName: file?.name ?? settings.fileName
+      },
+      file?.text
+    );
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2" title="Fiat values">
+          <DollarSign className="h-4 w-4" />
+          {settings.source === "none" ? "Prices" : settings.currency}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-1">
+          <label className="block text-sm font-medium">Price source</label>
+          <Select value={source} onValueChange={(value) => setSource(value as PriceSourceId)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PRICE_SOURCE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <label htmlFor="price-currency" className="block text-sm font-medium">
+            Display currency
+          </label>
+          <Input
+            id="price-currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            placeholder="USD"
+          />
+        </div>
+
+        {source === "file" && (
+          <div className="space-y-1">
+            <label htmlFor="price-file" className="block text-sm font-medium">
+              Price file
+            </label>
+            <Input id="price-file" type="file" accept=".csv,.json,.txt" onChange={(e) => handleFile(e.target.files?.[0])} />
+            <p className="text-xs text-gray-500">
+              {file?.name ?? settings.fileName ?? "CSV lines of date,asset,price, or JSON"} · prices in the display
+              currency
+            </p>
+          </div>
+        )}
+
+        {source === "http" && (
+          <div className="space-y-1">
+            <label htmlFor="price-url" className="block text-sm font-medium">
+              URL template
+            </label>
+            <Input
+              id="price-url"
+              value={httpUrl}
+              onChange={(e) => setHttpUrl(e.target.value)}
+              className="font-mono text-xs"
+            />
+            <p className="text-xs text-gray-500">
+              {"{asset}"}, {"{currency}"} and {"{date}"} are filled in; the reply is a number or {'{"price": n}'}.
+            </p>
+          </div>
+        )}
+
+        {source === "oracle" && (
+          <div className="space-y-1">
+            <label htmlFor="price-oracles" className="block text-sm font-medium">
+              Oracles
+            </label>
+            <Textarea
+              id="price-oracles"
+              rows={3}
+              value={oracles}
+              onChange={(e) => setOracles(e.target.value)}
+              className="font-mono text-xs"
+              placeholder="rAccount:documentId"
+            />
+            <p className="text-xs text-gray-500">Oracles only hold current prices, so past transactions are not valued.</p>
+          </div>
+        )}
+
+        <Button className="w-full" onClick={save}>
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
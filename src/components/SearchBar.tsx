@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { CheckCircle, Loader2, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useNetwork } from "@/hooks/use-network";
+import { classifySearchInput, resolveSearch, type SearchResult, type SearchResultKind } from "@/services/xrpl";
+
+const KIND_LABELS: Record<SearchResultKind, string> = {
+  account: "Account",
+  xaddress: "X-address",
+  transaction: "Transaction",
+  ledger: "Ledger",
+  nft: "NFToken",
+  lpToken: "LP token",
+  domain: "Domain"
+};
+
+interface SearchBarProps {
+  buttonLabel: string;
+  placeholder?: string;
+  // Stack the button under a full-width input (Index) instead of beside it.
+  stacked?: boolean;
+  onNavigate?: (result: SearchResult) => void;
+}
+
+export const SearchBar = ({ buttonLabel, placeholder, stacked = false, onNavigate }: SearchBarProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const navigate = useNavigate();
+  const { networkId, path } = useNetwork();
+
+  const hint = Array.from(new Set(classifySearchInput(query).map((result) => KIND_LABELS[result.kind])));
+
+  const open = (result: SearchResult) => {
+    if (!result.path) return;
+    onNavigate?.(result);
+    setResults([]);
+    navigate(path(result.path));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) {
+      toast.error("Please enter an address, hash, ledger, NFT ID or domain");
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const resolved = await resolveSearch(query, networkId);
+      if (resolved.length === 0) {
+        toast.error("Not a recognised address, hash, ledger index, NFT ID or domain");
+      } else if (resolved.length === 1 && resolved[0].verified && resolved[0].path) {
+        open(resolved[0]);
+        return;
+      }
+      setResults(resolved);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className={stacked ? "space-y-4" : "flex gap-2"}>
+        <Input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setResults([]);
+          }}
+          className="font-mono"
+          placeholder={placeholder}
+          aria-label="Search"
+        />
+        <Button type="submit" disabled={searching} className={stacked ? "w-full" : undefined}>
+          {searching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+          {buttonLabel}
+        </Button>
+      </div>
+
+      {hint.length > 0 && results.length === 0 && (
+        <p className="text-xs text-gray-500">Looks like: {hint.join(" or ")}</p>
+      )}
+
+      {results.length > 0 && (
+        <ul className="bg-white rounded-lg border divide-y text-sm">
+          {results.map((result) => (
+            <li key={`${result.kind}-${result.value}`}>
+              <button
+                type="button"
+                onClick={() => open(result)}
+                disabled={!result.path}
+                className="w-full text-left p-3 hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="px-2 py-1 rounded-full text-xs bg-primary/10 text-primary">
+                    {KIND_LABELS[result.kind]}
+                  </span>
+                  <span className="font-mono break-all">{result.label}</span>
+                  {result.verified && <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />}
+                </div>
+                {(result.description || !result.path) && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {[result.description, !result.path && "No page for this yet"].filter(Boolean).join(" · ")}
+                  </p>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  );
+};
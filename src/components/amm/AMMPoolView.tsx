@@ -0,0 +1,154 @@
+import { Link } from "react-router-dom";
+import { BookOpen, Coins, Gavel, Percent, Vote } from "lucide-react";
+import { AmountDisplay } from "@/components/AmountDisplay";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  amountValue,
+  formatCurrency,
+  formatIssuedValue,
+  getAmountBookAsset,
+  getOrderBookPath,
+  shortenAddress,
+  type AMMPool
+} from "@/services/xrpl";
+
+// Trading fees and vote weights are both in units of 1/100,000.
+const formatFeeUnits = (value: number) => `${(value / 1000).toFixed(3).replace(/\.?0+$/, "")}%`;
+
+// amm_info reports the auction slot expiry as an ISO timestamp.
+const formatExpiration = (expiration: string) => {
+  const date = new Date(expiration);
+  return Number.isNaN(date.getTime()) ? expiration : date.toLocaleString();
+};
+
+const AccountLink = ({ address }: { address: string }) => {
+  const { path } = useNetwork();
+  return (
+    <Link to={path(`/dashboard/${address}`)} className="font-mono text-primary hover:underline" title={address}>
+      {shortenAddress(address)}
+    </Link>
+  );
+};
+
+export const AMMPoolView = ({ pool }: { pool: AMMPool }) => {
+  const { path } = useNetwork();
+  const asset = getAmountBookAsset(pool.amount);
+  const asset2 = getAmountBookAsset(pool.amount2);
+  const price = amountValue(pool.amount2) / amountValue(pool.amount);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {[
+          { amount: pool.amount, frozen: pool.assetFrozen },
+          { amount: pool.amount2, frozen: pool.asset2Frozen }
+        ].map(({ amount, frozen }, index) => (
+          <div key={index} className="p-4 bg-primary/5 rounded-lg">
+            <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+              <Coins className="h-4 w-4" />
+              {formatCurrency(amount)} reserve
+              {frozen && <span className="px-2 py-1 rounded-full text-xs bg-red-100 text-red-800">frozen</span>}
+            </h3>
+            <AmountDisplay amount={amount} className="text-xl font-bold" />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="p-4 bg-primary/5 rounded-lg">
+          <h3 className="font-medium text-gray-600 mb-2">LP token supply</h3>
+          <p className="font-bold">{formatIssuedValue(pool.lpToken.value)}</p>
+          <p className="font-mono text-xs text-gray-500 break-all">{pool.lpToken.currency}</p>
+        </div>
+        <div className="p-4 bg-primary/5 rounded-lg">
+          <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+            <Percent className="h-4 w-4" />
+            Trading fee
+          </h3>
+          <p className="font-bold">{formatFeeUnits(pool.tradingFee)}</p>
+        </div>
+        <div className="p-4 bg-primary/5 rounded-lg">
+          <h3 className="font-medium text-gray-600 mb-2">Pool price</h3>
+          <p className="font-bold">
+            {price.toLocaleString("en-US", { maximumSignificantDigits: 6 })} {formatCurrency(pool.amount2)}
+          </p>
+          <p className="text-xs text-gray-500">per {formatCurrency(pool.amount)}</p>
+          <Link
+            to={path(getOrderBookPath(asset, asset2))}
+            className="mt-2 inline-flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <BookOpen className="h-3 w-3" />
+            Compare with the order book
+          </Link>
+        </div>
+      </div>
+
+      <div className="p-4 bg-primary/5 rounded-lg">
+        <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+          <Gavel className="h-4 w-4" />
+          Auction slot
+        </h3>
+        {pool.auctionSlot ? (
+          <dl className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-x-4 gap-y-2 text-sm">
+            <dt className="text-gray-500">Holder</dt>
+            <dd><AccountLink address={pool.auctionSlot.account} /></dd>
+            <dt className="text-gray-500">Price paid</dt>
+            <dd><AmountDisplay amount={pool.auctionSlot.price} showIssuer={false} /></dd>
+            <dt className="text-gray-500">Discounted fee</dt>
+            <dd>{formatFeeUnits(pool.auctionSlot.discountedFee)}</dd>
+            <dt className="text-gray-500">Expires</dt>
+            <dd>
+              {formatExpiration(pool.auctionSlot.expiration)}
+              <span className="text-gray-500"> (interval {pool.auctionSlot.timeInterval} of 20)</span>
+            </dd>
+            {pool.auctionSlot.authAccounts.length > 0 && (
+              <>
+                <dt className="text-gray-500">Also trading at the discount</dt>
+                <dd className="flex flex-wrap gap-2">
+                  {pool.auctionSlot.authAccounts.map((account) => (
+                    <AccountLink key={account} address={account} />
+                  ))}
+                </dd>
+              </>
+            )}
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">Nobody holds the auction slot</p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+          <Vote className="h-4 w-4" />
+          Fee votes
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2">Account</th>
+                <th className="text-right p-2">Voted fee</th>
+                <th className="text-right p-2">Vote weight</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pool.voteSlots.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="text-center py-4 text-gray-500">No votes</td>
+                </tr>
+              ) : (
+                pool.voteSlots.map((vote) => (
+                  <tr key={vote.account} className="border-b hover:bg-gray-50">
+                    <td className="p-2"><AccountLink address={vote.account} /></td>
+                    <td className="p-2 text-right">{formatFeeUnits(vote.tradingFee)}</td>
+                    <td className="p-2 text-right">{formatFeeUnits(vote.voteWeight)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
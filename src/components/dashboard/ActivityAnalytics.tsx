@@ -0,0 +1,248 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Activity, BarChart3, Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNetwork } from "@/hooks/use-network";
+import { useRangedHistory, type HistoryLoader } from "@/hooks/use-ranged-history";
+import { HISTORY_RANGES, type HistoryRangeId } from "@/lib/history-ranges";
+import {
+  collectTransactions,
+  formatAssetKey,
+  formatIssuedValue,
+  shortenAddress,
+  sortCounterpartiesByVolume,
+  summarizeActivity,
+  type ActivityPeriod,
+  type Transaction
+} from "@/services/xrpl";
+
+// Bars per range stay in the tens: daily for a month, weekly for a quarter, monthly beyond.
+const RANGE_PERIODS: Record<HistoryRangeId, ActivityPeriod> = {
+  "1m": "day",
+  "3m": "week",
+  "1y": "month",
+  all: "month"
+};
+
+const TOP_COUNTERPARTIES = 10;
+
+const volumeConfig = {
+  sent: { label: "Sent", color: "#ea384c" },
+  received: { label: "Received", color: "#1EAEDB" }
+} satisfies ChartConfig;
+
+const typeConfig = {
+  count: { label: "Transactions", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+const loadActivity: HistoryLoader<{ transactions: Transaction[]; complete: boolean }> = (
+  address,
+  since,
+  network,
+  onProgress,
+  signal
+) => collectTransactions(address, { since }, network, onProgress, signal);
+
+const formatPeriod = (start: number, period: ActivityPeriod) =>
+  new Date(start).toISOString().slice(0, period === "month" ? 7 : 10);
+
+const Stat = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="p-4 bg-primary/10 rounded-lg">
+    <p className="text-sm text-gray-600">{label}</p>
+    <p className="font-bold text-xl">{value}</p>
+    {detail && <p className="text-xs text-gray-500">{detail}</p>}
+  </div>
+);
+
+export const ActivityAnalytics = ({ address }: { address: string }) => {
+  const { path } = useNetwork();
+  const [range, setRange] = useState<HistoryRangeId>("3m");
+  const [asset, setAsset] = useState("XRP");
+  const [sortBy, setSortBy] = useState<"count" | "volume">("count");
+  const { history, start, scanned } = useRangedHistory(address, range, loadActivity, "Could not load the account history");
+  const period = RANGE_PERIODS[range];
+
+  const summary = useMemo(() => {
+    if (!history) return null;
+    const { transactions } = history.value;
+    const inRange =
+      start === undefined
+        ? transactions
+        : transactions.filter(({ closeTime }) => !closeTime || new Date(closeTime).getTime() >= start);
+    return summarizeActivity(inRange, address, period, { start });
+  }, [history, address, start, period]);
+
+  const volumeData = useMemo(
+    () =>
+      (summary?.volume ?? []).map((bucket) => ({
+        period: formatPeriod(bucket.start, period),
+        sent: Number(bucket.sent[asset] ?? 0),
+        received: Number(bucket.received[asset] ?? 0)
+      })),
+    [summary, asset, period]
+  );
+
+  const counterparties = useMemo(() => {
+    if (!summary) return [];
+    const ordered = sortBy === "volume" ? sortCounterpartiesByVolume(summary.counterparties, asset) : summary.counterparties;
+    return ordered.slice(0, TOP_COUNTERPARTIES);
+  }, [summary, sortBy, asset]);
+
+  const assets = summary && summary.assets.length > 0 ? summary.assets : ["XRP"];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {Object.entries(HISTORY_RANGES).map(([id, { label }]) => (
+            <Button
+              key={id}
+              size="sm"
+              variant={range === id ? "default" : "outline"}
+              onClick={() => setRange(id as HistoryRangeId)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <Select value={asset} onValueChange={setAsset}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(assets.includes(asset) ? assets : [asset, ...assets]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {formatAssetKey(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {scanned !== null && (
+        <p className="text-sm text-gray-500 flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Read {scanned.toLocaleString()} transactions…
+        </p>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <Stat label="Transactions" value={summary.total.toLocaleString()} />
+            <Stat
+              label="Success rate"
+              value={summary.total > 0 ? `${((summary.succeeded / summary.total) * 100).toFixed(1)}%` : "—"}
+              detail={`${summary.failed.toLocaleString()} failed`}
+            />
+            <Stat label="Fees paid" value={`${summary.fees} XRP`} />
+            <Stat label="Counterparties" value={summary.counterparties.length.toLocaleString()} />
+          </div>
+
+          <div className="p-4 bg-primary/5 rounded-lg">
+            <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              {formatAssetKey(asset)} sent and received per {period}
+            </h3>
+            <ChartContainer config={volumeConfig} className="aspect-auto h-[260px] w-full">
+              <BarChart data={volumeData} margin={{ left: 12, right: 12, top: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value: number) => value.toLocaleString()} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="sent" fill="var(--color-sent)" radius={2} isAnimationActive={false} />
+                <Bar dataKey="received" fill="var(--color-received)" radius={2} isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                <Activity className="h-4 w-4" />
+                Transaction types
+              </h3>
+              {summary.types.length === 0 ? (
+                <p className="text-sm text-gray-500">No transactions in this range</p>
+              ) : (
+                <ChartContainer
+                  config={typeConfig}
+                  className="aspect-auto w-full"
+                  style={{ height: Math.max(120, summary.types.length * 32) }}
+                >
+                  <BarChart data={summary.types} layout="vertical" margin={{ left: 12, right: 12 }}>
+                    <XAxis type="number" hide />
+                    <YAxis dataKey="type" type="category" tickLine={false} axisLine={false} width={140} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </div>
+
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <h3 className="font-medium text-gray-600 flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Top counterparties
+                </h3>
+                <Select value={sortBy} onValueChange={(value) => setSortBy(value as "count" | "volume")}>
+                  <SelectTrigger className="w-[160px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">By count</SelectItem>
+                    <SelectItem value="volume">By {asset.split(".")[0]} volume</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {counterparties.length === 0 ? (
+                <p className="text-sm text-gray-500">No counterparties in this range</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Account</th>
+                      <th className="text-right p-2">Transactions</th>
+                      <th className="text-right p-2">{asset.split(".")[0]} volume</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {counterparties.map((counterparty) => (
+                      <tr key={counterparty.account} className="border-b last:border-b-0">
+                        <td className="p-2">
+                          <Link
+                            to={path(`/dashboard/${counterparty.account}`)}
+                            className="font-mono text-primary hover:underline"
+                            title={counterparty.account}
+                          >
+                            {shortenAddress(counterparty.account)}
+                          </Link>
+                        </td>
+                        <td className="p-2 text-right">{counterparty.count.toLocaleString()}</td>
+                        <td className="p-2 text-right">
+                          {counterparty.volume[asset] ? formatIssuedValue(counterparty.volume[asset]) : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
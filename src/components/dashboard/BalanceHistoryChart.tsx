@@ -0,0 +1,174 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Area, AreaChart, Brush, CartesianGrid, ReferenceDot, XAxis, YAxis } from "recharts";
+import { LineChart as LineChartIcon, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNetwork } from "@/hooks/use-network";
+import { useRangedHistory } from "@/hooks/use-ranged-history";
+import { HISTORY_RANGES, type HistoryRangeId } from "@/lib/history-ranges";
+import {
+  fetchBalanceHistory,
+  findLargeMovements,
+  formatAssetKey,
+  formatIssuedValue,
+  getHistoryAssets,
+  reconstructBalanceHistory,
+  sliceBalanceHistory
+} from "@/services/xrpl";
+
+// Markers are kept to the most recent few so a busy account stays readable.
+const MAX_MARKERS = 20;
+
+const chartConfig = {
+  balance: { label: "Balance", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+const formatDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const formatSignedValue = (value: string) =>
+  value.startsWith("-") ? `−${formatIssuedValue(value.slice(1))}` : `+${formatIssuedValue(value)}`;
+
+export const BalanceHistoryChart = ({ address }: { address: string }) => {
+  const { path } = useNetwork();
+  const [range, setRange] = useState<HistoryRangeId>("3m");
+  const [asset, setAsset] = useState("XRP");
+  const { history, start, scanned } = useRangedHistory(
+    address,
+    range,
+    fetchBalanceHistory,
+    "Could not load the balance history"
+  );
+
+  const points = useMemo(
+    () =>
+      history
+        ? sliceBalanceHistory(reconstructBalanceHistory(history.value, address, { start: history.since }), start)
+        : [],
+    [history, address, start]
+  );
+  const assets = useMemo(() => getHistoryAssets(points), [points]);
+  const data = useMemo(
+    () => points.map((point) => ({ time: point.time, balance: Number(point.balances[asset] ?? 0) })),
+    [points, asset]
+  );
+  const markers = useMemo(() => findLargeMovements(points, asset).slice(-MAX_MARKERS), [points, asset]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {Object.entries(HISTORY_RANGES).map(([id, { label }]) => (
+            <Button
+              key={id}
+              size="sm"
+              variant={range === id ? "default" : "outline"}
+              onClick={() => setRange(id as HistoryRangeId)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <Select value={asset} onValueChange={setAsset}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(assets.includes(asset) ? assets : [asset, ...assets]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {formatAssetKey(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {scanned !== null && (
+        <p className="text-sm text-gray-500 flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Read {scanned.toLocaleString()} transactions…
+        </p>
+      )}
+
+      {data.length > 0 && (
+        // Keyed so the zoom window resets when the data changes.
+        <ChartContainer key={`${range}-${asset}`} config={chartConfig} className="aspect-auto h-[320px] w-full">
+          <AreaChart data={data} margin={{ left: 12, right: 12, top: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatDay}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={32}
+            />
+            <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value: number) => value.toLocaleString()} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const time = payload?.[0]?.payload?.time;
+                    return typeof time === "number" ? new Date(time).toISOString().replace("T", " ").slice(0, 19) : "";
+                  }}
+                />
+              }
+            />
+            <Area
+              dataKey="balance"
+              type="stepAfter"
+              stroke="var(--color-balance)"
+              fill="var(--color-balance)"
+              fillOpacity={0.15}
+              isAnimationActive={false}
+            />
+            {markers.map((marker) => (
+              <ReferenceDot
+                key={marker.hash}
+                x={marker.time}
+                y={Number(marker.balances[asset] ?? 0)}
+                r={5}
+                fill={(marker.changes[asset] ?? "").startsWith("-") ? "#ea384c" : "#1EAEDB"}
+                stroke="white"
+              />
+            ))}
+            <Brush dataKey="time" height={24} tickFormatter={formatDay} stroke="hsl(var(--primary))" />
+          </AreaChart>
+        </ChartContainer>
+      )}
+
+      {markers.length > 0 && (
+        <div className="p-4 bg-primary/5 rounded-lg">
+          <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+            <LineChartIcon className="h-4 w-4" />
+            Large movements
+          </h3>
+          <ul className="space-y-1 text-sm">
+            {[...markers].reverse().map((marker) => {
+              const change = marker.changes[asset] ?? "0";
+              return (
+                <li key={marker.hash} className="flex flex-wrap items-center gap-2">
+                  <span className="text-gray-500">{formatDay(marker.time)}</span>
+                  <span className={`font-bold ${change.startsWith("-") ? "text-[#ea384c]" : "text-[#1EAEDB]"}`}>
+                    {formatSignedValue(change)} {asset.split(".")[0]}
+                  </span>
+                  {marker.hash && (
+                    <Link
+                      to={path(`/transaction/${marker.hash}`)}
+                      className="font-mono text-xs text-primary hover:underline"
+                    >
+                      {marker.hash.substring(0, 8)}...
+                    </Link>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
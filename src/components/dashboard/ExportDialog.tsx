@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { downloadBlob } from "@/lib/download";
+import { buildXLSX } from "@/lib/xlsx";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  collectExportRows,
+  serializeCSV,
+  serializeJSONL,
+  toSpreadsheetRows,
+  type ExportFormat,
+  type ExportRange,
+  type ExportRow
+} from "@/services/xrpl";
+
+type RangeMode = "all" | "dates" | "ledgers";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  jsonl: "JSON Lines",
+  xlsx: "Excel (XLSX)"
+};
+
+const toFile = (rows: ExportRow[], format: ExportFormat, sheetName: string): Blob => {
+  switch (format) {
+    case "csv":
+      return new Blob([serializeCSV(rows)], { type: "text/csv;charset=utf-8" });
+    case "jsonl":
+      return new Blob([serializeJSONL(rows)], { type: "application/x-ndjson" });
+    case "xlsx":
+      return buildXLSX(sheetName, toSpreadsheetRows(rows));
+  }
+};
+
+const parseLedger = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+export const ExportDialog = ({ address }: { address: string }) => {
+  const { networkId } = useNetwork();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [mode, setMode] = useState<RangeMode>("all");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [ledgerMin, setLedgerMin] = useState("");
+  const [ledgerMax, setLedgerMax] = useState("");
+  const [scanned, setScanned] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog or leaving the page stops a running export after its current page.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) abortRef.current?.abort();
+    setOpen(next);
+  };
+
+  const buildRange = (): ExportRange | null => {
+    if (mode === "dates") {
+      // Whole UTC days, both ends inclusive.
+      const range = {
+        startDate: startDate ? new Date(`${startDate}T00:00:00.000Z`) : undefined,
+        endDate: endDate ? new Date(`${endDate}T23:59:59.999Z`) : undefined
+      };
+      return range.startDate && range.endDate && range.startDate > range.endDate ? null : range;
+    }
+    if (mode === "ledgers") {
+      const range = { ledgerIndexMin: parseLedger(ledgerMin), ledgerIndexMax: parseLedger(ledgerMax) };
+      const values = [range.ledgerIndexMin, range.ledgerIndexMax].filter((value): value is number => value !== undefined);
+      if (values.some((value) => !Number.isInteger(value) || value < 1)) return null;
+      return range.ledgerIndexMin !== undefined &&
+        range.ledgerIndexMax !== undefined &&
+        range.ledgerIndexMin > range.ledgerIndexMax
+        ? null
+        : range;
+    }
+    return {};
+  };
+
+  const handleExport = async () => {
+    const range = buildRange();
+    if (!range) {
+      toast.error("Invalid range");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setScanned(0);
+    try {
+      const rows = await collectExportRows(address, range, networkId, setScanned, controller.signal);
+      if (controller.signal.aborted) return;
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadBlob(toFile(rows, format, address), `${address}-${networkId}-transactions-${stamp}.${format}`);
+      toast.success(`Exported ${rows.length} rows`);
+      setOpen(false);
+    } catch (error) {
+      console.error("[XRPL] Export failed:", error);
+      toast.error("Export failed; the history could not be read completely");
+    } finally {
+      abortRef.current = null;
+      setScanned(null);
+    }
+  };
+
+  const exporting = scanned !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export history
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export transaction history</DialogTitle>
+          <DialogDescription>
+            Reads the full account history from the network. Each row is one currency a transaction moved for this
+            account, with signed amounts; the fee is listed once per transaction.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)} disabled={exporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Range</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as RangeMode)} disabled={exporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Full history</SelectItem>
+                <SelectItem value="dates">Date range (UTC)</SelectItem>
+                <SelectItem value="ledgers">Ledger range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === "dates" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-from">From</Label>
+                <Input id="export-from" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-to">To</Label>
+                <Input id="export-to" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {mode === "ledgers" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-ledger-min">First ledger</Label>
+                <Input
+                  id="export-ledger-min"
+                  inputMode="numeric"
+                  placeholder="Earliest"
+                  value={ledgerMin}
+                  onChange={(e) => setLedgerMin(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-ledger-max">Last ledger</Label>
+                <Input
+                  id="export-ledger-max"
+                  inputMode="numeric"
+                  placeholder="Latest validated"
+                  value={ledgerMax}
+                  onChange={(e) => setLedgerMax(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {exporting && (
+            <p className="text-sm text-gray-500 flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Scanned {scanned.toLocaleString()} transactions…
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting ? "Exporting…" : `Export ${FORMAT_LABELS[format]}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Image as ImageIcon, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { NFTMedia } from "@/components/nft/NFTMedia";
+import { useNetwork } from "@/hooks/use-network";
+import { useNFTMetadata } from "@/hooks/use-nft-metadata";
+import {
+  fetchAccountNFTs,
+  getIpfsGateway,
+  setIpfsGateway,
+  shortenAddress,
+  type NFToken
+} from "@/services/xrpl";
+
+const NFTCard = ({ nft }: { nft: NFToken }) => {
+  const { path } = useNetwork();
+  const { metadata, loading } = useNFTMetadata(nft.uri);
+
+  return (
+    <Link
+      to={path(`/nft/${nft.id}`)}
+      className="block rounded-lg border overflow-hidden hover:shadow-md transition-shadow"
+    >
+      <NFTMedia metadata={metadata} loading={loading} className="w-full aspect-square" />
+      <div className="p-3">
+        <p className="font-medium truncate">{metadata?.name ?? `Serial #${nft.serial}`}</p>
+        <p className="text-xs text-gray-500 truncate">
+          Taxon {nft.taxon} · <span className="font-mono">{shortenAddress(nft.issuer)}</span>
+        </p>
+      </div>
+    </Link>
+  );
+};
+
+export const NFTGallery = ({ address }: { address: string }) => {
+  const { networkId } = useNetwork();
+  const [nfts, setNfts] = useState<NFToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [gateway, setGateway] = useState(getIpfsGateway);
+  const [gatewayInput, setGatewayInput] = useState(gateway);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchAccountNFTs(address, networkId).then((result) => {
+      if (cancelled) return;
+      setNfts(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, networkId]);
+
+  const saveGateway = () => {
+    setIpfsGateway(gatewayInput);
+    const saved = getIpfsGateway();
+    setGateway(saved);
+    setGatewayInput(saved);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600 flex items-center gap-2">
+          <ImageIcon className="h-4 w-4" />
+          {nfts.length} NFT{nfts.length === 1 ? "" : "s"}
+        </p>
+        <div className="flex items-center gap-2">
+          <label htmlFor="ipfs-gateway" className="text-xs text-gray-500">IPFS gateway</label>
+          <Input
+            id="ipfs-gateway"
+            value={gatewayInput}
+            onChange={(e) => setGatewayInput(e.target.value)}
+            className="h-8 w-64 font-mono text-xs"
+          />
+          <Button size="sm" variant="outline" onClick={saveGateway} disabled={gatewayInput === gateway}>
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {nfts.length === 0 ? (
+        <p className="text-center py-8 text-gray-500">This account holds no NFTs</p>
+      ) : (
+        // Remount on gateway change so every card re-resolves its media.
+        <div key={gateway} className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {nfts.map((nft) => (
+            <NFTCard key={nft.id} nft={nft} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ChevronDown, ChevronRight, Loader2, Lock } from "lucide-react";
+import { AmountDisplay } from "@/components/AmountDisplay";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  fetchAccountOffers,
+  formatAmount,
+  formatCurrency,
+  formatXRPLDate,
+  getAmountBookAsset,
+  getClosedOffers,
+  getOfferHistory,
+  getOrderBookPath,
+  isOfferExpired,
+  shortenAddress,
+  sumOfferedAmounts,
+  type AccountOffer,
+  type OfferChangeKind,
+  type OfferHistoryEntry,
+  type Transaction
+} from "@/services/xrpl";
+
+const LSF_PASSIVE = 0x00010000;
+const LSF_SELL = 0x00020000;
+
+const EVENT_LABELS: Record<OfferChangeKind, string> = {
+  created: "Placed",
+  partiallyFilled: "Partially filled",
+  filled: "Filled",
+  cancelled: "Cancelled",
+  removed: "Removed (expired or unfunded)"
+};
+
+const EVENT_TONES: Record<OfferChangeKind, string> = {
+  created: "bg-blue-100 text-blue-800",
+  partiallyFilled: "bg-yellow-100 text-yellow-800",
+  filled: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  removed: "bg-red-100 text-red-800"
+};
+
+const EventBadge = ({ kind }: { kind: OfferChangeKind }) => (
+  <span className={`px-2 py-1 rounded-full text-xs ${EVENT_TONES[kind]}`}>{EVENT_LABELS[kind]}</span>
+);
+
+const OfferEvent = ({ entry }: { entry: OfferHistoryEntry }) => {
+  const { path } = useNetwork();
+  return (
+    <span className="inline-flex flex-wrap items-center gap-2 text-sm">
+      <EventBadge kind={entry.kind} />
+      {entry.sold && entry.bought && (
+        <span>
+          sold {formatAmount(entry.sold)} for {formatAmount(entry.bought)}
+        </span>
+      )}
+      <span className="text-gray-500">{entry.date}</span>
+      <Link to={path(`/transaction/${entry.hash}`)} className="font-mono text-primary hover:underline">
+        {shortenAddress(entry.hash)}
+      </Link>
+    </span>
+  );
+};
+
+interface OffersPanelProps {
+  address: string;
+  // Loaded account history, newest first; offer events are read from it.
+  transactions: Transaction[];
+  hasMoreHistory: boolean;
+}
+
+export const OffersPanel = ({ address, transactions, hasMoreHistory }: OffersPanelProps) => {
+  const { networkId, path } = useNetwork();
+  const [offers, setOffers] = useState<AccountOffer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  // Refetch whenever a new transaction lands, since it may have filled or cancelled an offer.
+  const latestHash = transactions[0]?.hash;
+
+  // Another account starts empty rather than showing the previous one's offers while it loads.
+  useEffect(() => {
+    setOffers([]);
+    setLoading(true);
+  }, [address, networkId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAccountOffers(address, networkId).then((result) => {
+      if (cancelled) return;
+      setOffers(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, networkId, latestHash]);
+
+  const closedOffers = useMemo(
+    () => getClosedOffers(transactions, address, new Set(offers.map((offer) => offer.sequence))),
+    [transactions, address, offers]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const offered = sumOfferedAmounts(offers);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-primary/5 rounded-lg">
+        <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          {offers.length} open offer{offers.length === 1 ? "" : "s"}
+        </h3>
+        {offered.length > 0 && (
+          <p className="text-sm mb-2">
+            Offered for sale: {offered.map(formatAmount).join(", ")}
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          Offered funds stay in the balance until someone takes the offer, so they can be traded away at any time.
+          Each open offer also holds one owner reserve until it is filled or cancelled.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="w-8"></th>
+              <th className="text-left p-4">Sequence</th>
+              <th className="text-left p-4">Selling</th>
+              <th className="text-left p-4">Buying</th>
+              <th className="text-left p-4">Rate</th>
+              <th className="text-left p-4">Expires</th>
+            </tr>
+          </thead>
+          <tbody>
+            {offers.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="text-center py-8 text-gray-500">No open offers</td>
+              </tr>
+            ) : (
+              offers.map((offer) => {
+                const isExpanded = expanded === offer.sequence;
+                const history = isExpanded ? getOfferHistory(transactions, address, offer.sequence) : [];
+                return (
+                  <Fragment key={offer.sequence}>
+                    <tr
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(isExpanded ? null : offer.sequence)}
+                    >
+                      <td className="pl-2">
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="p-4 font-mono">
+                        {offer.sequence}
+                        {(offer.flags & LSF_PASSIVE) !== 0 && (
+                          <span className="ml-2 px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-800">Passive</span>
+                        )}
+                        {(offer.flags & LSF_SELL) !== 0 && (
+                          <span className="ml-2 px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-800">Sell</span>
+                        )}
+                      </td>
+                      <td className="p-4"><AmountDisplay amount={offer.takerGets} /></td>
+                      <td className="p-4"><AmountDisplay amount={offer.takerPays} /></td>
+                      <td className="p-4 text-sm">
+                        <Link
+                          to={path(getOrderBookPath(getAmountBookAsset(offer.takerGets), getAmountBookAsset(offer.takerPays)))}
+                          className="text-primary hover:underline"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {offer.rate.toLocaleString("en-US", { maximumSignificantDigits: 6 })}{" "}
+                          {formatCurrency(offer.takerPays)}/{formatCurrency(offer.takerGets)}
+                        </Link>
+                      </td>
+                      <td className="p-4 text-sm">
+                        {offer.expiration ? formatXRPLDate(offer.expiration) : "Never"}
+                        {isOfferExpired(offer) && (
+                          <span className="ml-2 px-2 py-1 rounded-full text-xs bg-red-100 text-red-800">expired</span>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b bg-gray-50">
+                        <td></td>
+                        <td colSpan={5} className="p-4">
+                          {history.length > 0 && (
+                            <ul className="space-y-2">
+                              {history.map((entry) => (
+                                <li key={`${entry.hash}-${entry.kind}`}>
+                                  <OfferEvent entry={entry} />
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {!history.some((entry) => entry.kind === "created") && (
+                            <p className="text-sm text-gray-500 mt-2">
+                              The transaction that placed this offer is not in the loaded history
+                              {hasMoreHistory ? "; load older transactions to find it." : "."}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {closedOffers.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-600 mb-2">Closed offers in the loaded history</h3>
+          <ul className="space-y-2">
+            {closedOffers.map((entry) => (
+              <li key={entry.sequence} className="flex flex-wrap items-center gap-2">
+                <span className="font-mono text-sm">#{entry.sequence}</span>
+                <OfferEvent entry={entry} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
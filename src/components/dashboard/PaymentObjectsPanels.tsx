@@ -0,0 +1,295 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { ArrowDownLeft, ArrowUpRight, Loader2, Lock } from "lucide-react";
+import { AmountDisplay } from "@/components/AmountDisplay";
+import { useNetwork } from "@/hooks/use-network";
+import { usePaymentObjects } from "@/hooks/use-payment-objects";
+import {
+  findCreatingTransaction,
+  formatAmount,
+  formatXRPLDate,
+  hasRippleTimePassed,
+  shortenAddress,
+  subtractDecimals,
+  sumAmounts,
+  type Amount,
+  type Transaction
+} from "@/services/xrpl";
+
+interface PaymentObjectsPanelProps {
+  address: string;
+  // Loaded account history, newest first; a new head refetches the objects.
+  transactions: Transaction[];
+}
+
+const formatSeconds = (seconds: number) => {
+  const units: [number, string][] = [
+    [86400, "day"],
+    [3600, "hour"],
+    [60, "minute"]
+  ];
+  for (const [size, unit] of units) {
+    if (seconds >= size && seconds % size === 0) {
+      const count = seconds / size;
+      return `${count} ${unit}${count === 1 ? "" : "s"}`;
+    }
+  }
+  return `${seconds} second${seconds === 1 ? "" : "s"}`;
+};
+
+const Badge = ({ tone, children }: { tone: string; children: ReactNode }) => (
+  <span className={`ml-2 px-2 py-1 rounded-full text-xs ${tone}`}>{children}</span>
+);
+
+// Shows which side of the object the viewed account is on, linking the other party.
+const Counterparty = ({ address, account, destination }: { address: string; account: string; destination: string }) => {
+  const { path } = useNetwork();
+  const outgoing = account === address;
+  const other = outgoing ? destination : account;
+  return (
+    <span className="inline-flex items-center gap-1 text-sm">
+      {outgoing ? (
+        <ArrowUpRight className="h-4 w-4 text-red-500" />
+      ) : (
+        <ArrowDownLeft className="h-4 w-4 text-green-500" />
+      )}
+      {outgoing ? "To" : "From"}
+      <Link to={path(`/dashboard/${other}`)} className="font-mono text-primary hover:underline" title={other}>
+        {shortenAddress(other)}
+      </Link>
+    </span>
+  );
+};
+
+const TransactionLink = ({ hash, label }: { hash: string; label?: string }) => {
+  const { path } = useNetwork();
+  return (
+    <span className="text-sm">
+      {label && <span className="text-gray-500">{label} </span>}
+      <Link to={path(`/transaction/${hash}`)} className="font-mono text-primary hover:underline" title={hash}>
+        {shortenAddress(hash)}
+      </Link>
+    </span>
+  );
+};
+
+const DateCell = ({ time, passedLabel, passedTone }: { time?: number; passedLabel: string; passedTone: string }) => (
+  <>
+    {time === undefined ? "—" : formatXRPLDate(time)}
+    {time !== undefined && hasRippleTimePassed(time) && <Badge tone={passedTone}>{passedLabel}</Badge>}
+  </>
+);
+
+// Totals for what the account itself has locked up, as opposed to what is owed to it.
+const LockedSummary = ({ count, noun, amounts, note }: { count: number; noun: string; amounts: Amount[]; note: string }) => (
+  <div className="p-4 bg-primary/5 rounded-lg">
+    <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+      <Lock className="h-4 w-4" />
+      {count} {noun}
+      {count === 1 ? "" : "s"}
+    </h3>
+    {amounts.length > 0 && <p className="text-sm mb-2">Sent by this account: {amounts.map(formatAmount).join(", ")}</p>}
+    <p className="text-xs text-gray-500">{note}</p>
+  </div>
+);
+
+const Loading = () => (
+  <div className="flex justify-center py-8">
+    <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+  </div>
+);
+
+const EmptyRow = ({ colSpan, children }: { colSpan: number; children: ReactNode }) => (
+  <tr>
+    <td colSpan={colSpan} className="text-center py-8 text-gray-500">{children}</td>
+  </tr>
+);
+
+export const EscrowsPanel = ({ address, transactions }: PaymentObjectsPanelProps) => {
+  const { escrows, loading } = usePaymentObjects(address, transactions[0]?.hash);
+  if (loading) return <Loading />;
+
+  const locked = sumAmounts(escrows.filter((escrow) => escrow.account === address).map((escrow) => escrow.amount));
+
+  return (
+    <div className="space-y-6">
+      <LockedSummary
+        count={escrows.length}
+        noun="escrow"
+        amounts={locked}
+        note="Escrowed funds have left the sender's balance. They go to the destination once finished, or back to the sender once cancelled."
+      />
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-4">Counterparty</th>
+              <th className="text-left p-4">Amount</th>
+              <th className="text-left p-4">Finish after</th>
+              <th className="text-left p-4">Cancel after</th>
+              <th className="text-left p-4">Condition</th>
+              <th className="text-left p-4">Created by</th>
+            </tr>
+          </thead>
+          <tbody>
+            {escrows.length === 0 ? (
+              <EmptyRow colSpan={6}>No escrows</EmptyRow>
+            ) : (
+              escrows.map((escrow) => (
+                <tr key={escrow.index} className="border-b hover:bg-gray-50">
+                  <td className="p-4">
+                    <Counterparty address={address} account={escrow.account} destination={escrow.destination} />
+                  </td>
+                  <td className="p-4"><AmountDisplay amount={escrow.amount} /></td>
+                  <td className="p-4 text-sm">
+                    <DateCell time={escrow.finishAfter} passedLabel="finishable" passedTone="bg-green-100 text-green-800" />
+                  </td>
+                  <td className="p-4 text-sm">
+                    <DateCell time={escrow.cancelAfter} passedLabel="cancelable" passedTone="bg-red-100 text-red-800" />
+                  </td>
+                  <td className="p-4 text-sm font-mono" title={escrow.condition}>
+                    {escrow.condition ? shortenAddress(escrow.condition) : "—"}
+                  </td>
+                  {/* Escrows are never modified in place, so their last transaction is the one that created them. */}
+                  <td className="p-4"><TransactionLink hash={escrow.previousTxnId} /></td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export const ChecksPanel = ({ address, transactions }: PaymentObjectsPanelProps) => {
+  const { checks, loading } = usePaymentObjects(address, transactions[0]?.hash);
+  if (loading) return <Loading />;
+
+  const promised = sumAmounts(checks.filter((check) => check.account === address).map((check) => check.sendMax));
+
+  return (
+    <div className="space-y-6">
+      <LockedSummary
+        count={checks.length}
+        noun="check"
+        amounts={promised}
+        note="A check reserves nothing but its owner reserve: funds stay with the sender until the destination cashes it, and cashing fails if they are gone."
+      />
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-4">Counterparty</th>
+              <th className="text-left p-4">Send max</th>
+              <th className="text-left p-4">Expiration</th>
+              <th className="text-left p-4">Created by</th>
+            </tr>
+          </thead>
+          <tbody>
+            {checks.length === 0 ? (
+              <EmptyRow colSpan={4}>No checks</EmptyRow>
+            ) : (
+              checks.map((check) => (
+                <tr key={check.index} className="border-b hover:bg-gray-50">
+                  <td className="p-4">
+                    <Counterparty address={address} account={check.account} destination={check.destination} />
+                    {check.invoiceId && (
+                      <p className="mt-1 text-xs font-mono text-gray-500" title={check.invoiceId}>
+                        Invoice {shortenAddress(check.invoiceId)}
+                      </p>
+                    )}
+                  </td>
+                  <td className="p-4"><AmountDisplay amount={check.sendMax} /></td>
+                  <td className="p-4 text-sm">
+                    {check.expiration === undefined ? "Never" : (
+                      <DateCell time={check.expiration} passedLabel="expired" passedTone="bg-red-100 text-red-800" />
+                    )}
+                  </td>
+                  {/* Checks are never modified in place, so their last transaction is the one that created them. */}
+                  <td className="p-4"><TransactionLink hash={check.previousTxnId} /></td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export const ChannelsPanel = ({ address, transactions }: PaymentObjectsPanelProps) => {
+  const { channels, loading } = usePaymentObjects(address, transactions[0]?.hash);
+  if (loading) return <Loading />;
+
+  const remaining = sumAmounts(
+    channels
+      .filter((channel) => channel.account === address)
+      .flatMap((channel) =>
+        channel.amount.kind === "xrp" && channel.balance.kind === "xrp"
+          ? [{ kind: "xrp" as const, drops: subtractDecimals(channel.amount.drops, channel.balance.drops) }]
+          : []
+      )
+  );
+
+  return (
+    <div className="space-y-6">
+      <LockedSummary
+        count={channels.length}
+        noun="payment channel"
+        amounts={remaining}
+        note="Channel funds not yet claimed stay locked until the destination claims them or the source closes the channel after its settle delay."
+      />
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-4">Counterparty</th>
+              <th className="text-left p-4">Amount</th>
+              <th className="text-left p-4">Claimed</th>
+              <th className="text-left p-4">Settle delay</th>
+              <th className="text-left p-4">Public key</th>
+              <th className="text-left p-4">Transaction</th>
+            </tr>
+          </thead>
+          <tbody>
+            {channels.length === 0 ? (
+              <EmptyRow colSpan={6}>No payment channels</EmptyRow>
+            ) : (
+              channels.map((channel) => {
+                // Claims and funding update a channel in place, so only the loaded history can name its creator.
+                const creator = findCreatingTransaction(transactions, channel.index);
+                const closeAt = [channel.expiration, channel.cancelAfter].filter((time): time is number => time !== undefined);
+                return (
+                  <tr key={channel.index} className="border-b hover:bg-gray-50">
+                    <td className="p-4">
+                      <Counterparty address={address} account={channel.account} destination={channel.destination} />
+                    </td>
+                    <td className="p-4"><AmountDisplay amount={channel.amount} /></td>
+                    <td className="p-4"><AmountDisplay amount={channel.balance} /></td>
+                    <td className="p-4 text-sm">
+                      {formatSeconds(channel.settleDelay)}
+                      {closeAt.some((time) => hasRippleTimePassed(time)) && (
+                        <Badge tone="bg-red-100 text-red-800">closable</Badge>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm font-mono" title={channel.publicKey}>
+                      {shortenAddress(channel.publicKey)}
+                    </td>
+                    <td className="p-4">
+                      {creator ? (
+                        <TransactionLink hash={creator.hash} label="Created by" />
+                      ) : (
+                        <TransactionLink hash={channel.previousTxnId} label="Last updated by" />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
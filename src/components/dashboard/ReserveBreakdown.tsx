@@ -0,0 +1,182 @@
+import { Fragment, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Lightbulb, Loader2, Lock } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  fetchReserveInventory,
+  LEDGER_OBJECT_LABELS,
+  shortenAddress,
+  type BalanceDetails,
+  type OwnedObject,
+  type ReserveInventory
+} from "@/services/xrpl";
+
+interface ReserveBreakdownProps {
+  address: string;
+  balance: BalanceDetails;
+}
+
+const ObjectRow = ({ object }: { object: OwnedObject }) => (
+  <li className="py-2 border-b last:border-b-0">
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <span>{object.summary}</span>
+      <span className="text-gray-500">
+        {object.reserve}
+        {object.ownerCount > 1 && ` (${object.ownerCount} owner count)`}
+      </span>
+    </div>
+    <p className="font-mono text-xs text-gray-400" title={object.index}>{shortenAddress(object.index, 16)}</p>
+    {object.suggestion && (
+      <p className="mt-1 text-xs text-gray-600">
+        <span
+          className={`mr-2 px-2 py-1 rounded-full ${
+            object.suggestion.ready ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"
+          }`}
+        >
+          {object.suggestion.transaction}
+        </span>
+        {object.suggestion.description}
+      </p>
+    )}
+  </li>
+);
+
+export const ReserveBreakdown = ({ address, balance }: ReserveBreakdownProps) => {
+  const { networkId } = useNetwork();
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [inventory, setInventory] = useState<{ key: string; value: ReserveInventory } | null>(null);
+  const [failedKey, setFailedKey] = useState<string | null>(null);
+
+  const ownerCount = balance.ownerCount ?? 0;
+  // A new OwnerCount means objects were added or removed, so the listing is reloaded.
+  const key = `${networkId}|${address}|${ownerCount}`;
+  const loaded = inventory?.key === key ? inventory.value : null;
+  const failed = failedKey === key;
+
+  // The objects are only listed once the breakdown is opened.
+  useEffect(() => {
+    if (!open || !address || loaded || failed) return;
+    let cancelled = false;
+    fetchReserveInventory(address, ownerCount, networkId)
+      .then((value) => {
+        if (!cancelled) setInventory({ key, value });
+      })
+      .catch((error) => {
+        console.error("[XRPL] Could not list owned objects:", error);
+        if (!cancelled) setFailedKey(key);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, address, ownerCount, networkId, key, loaded, failed]);
+
+  if (!balance.baseReserve) return null;
+
+  // The balance carries a capped breakdown; the full listing replaces it once loaded.
+  const items = loaded?.breakdown ?? balance.reserveBreakdown ?? [];
+  const objects = loaded?.ownedObjects ?? [];
+  const removable = objects.filter((object) => object.suggestion?.ready).length;
+
+  return (
+    <Collapsible className="mb-6" open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-800">
+        <Lock className="h-4 w-4" />
+        <span>
+          Reserved: <span className="font-semibold">{balance.reserve}</span>
+          {" "}(base {balance.baseReserve} + {balance.ownerCount ?? 0} owned × {balance.ownerReserve})
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="mt-2 p-4 bg-gray-50 rounded-lg">
+          <p className="mb-4 text-xs text-gray-500">
+            Available is the total balance minus the reserve. The network keeps the reserve locked for the account
+            itself and for every object it owns; deleting an object releases its share.
+          </p>
+          {removable > 0 && (
+            <p className="mb-4 text-sm flex items-center gap-2">
+              <Lightbulb className="h-4 w-4 text-yellow-500" />
+              Removing {removable} object{removable === 1 ? "" : "s"} marked ready below would free{" "}
+              <span className="font-semibold">{loaded?.freeableReserve}</span>.
+            </p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="w-6"></th>
+                <th className="text-left p-2">Object</th>
+                <th className="text-right p-2">Count</th>
+                <th className="text-right p-2">Owner count</th>
+                <th className="text-right p-2">Reserve</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <td></td>
+                <td className="p-2">Account (base reserve)</td>
+                <td className="p-2 text-right">1</td>
+                <td className="p-2 text-right">—</td>
+                <td className="p-2 text-right">{balance.baseReserve}</td>
+              </tr>
+              {failed && (
+                <tr className="border-b">
+                  <td></td>
+                  <td colSpan={4} className="p-2 text-red-600">
+                    Could not load the owned objects.{" "}
+                    <button onClick={() => setFailedKey(null)} className="text-primary hover:underline">
+                      Try again
+                    </button>
+                  </td>
+                </tr>
+              )}
+              {!loaded && !failed && ownerCount > 0 && (
+                <tr className="border-b">
+                  <td></td>
+                  <td colSpan={4} className="p-2 text-gray-500">
+                    <span className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Loading {ownerCount} owned object{ownerCount === 1 ? "" : "s"}…
+                    </span>
+                  </td>
+                </tr>
+              )}
+              {items.map((item) => {
+                const owned = objects.filter((object) => object.type === item.type);
+                const isExpanded = expanded === item.type;
+                return (
+                  <Fragment key={item.type}>
+                    <tr
+                      className={`border-b ${owned.length > 0 ? "cursor-pointer hover:bg-gray-100" : ""}`}
+                      onClick={() => owned.length > 0 && setExpanded(isExpanded ? null : item.type)}
+                    >
+                      <td className="pl-1">
+                        {owned.length > 0 &&
+                          (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                      </td>
+                      <td className="p-2">{LEDGER_OBJECT_LABELS[item.type] ?? item.type}</td>
+                      <td className="p-2 text-right">{item.count}</td>
+                      <td className="p-2 text-right">{item.ownerCount}</td>
+                      <td className="p-2 text-right">{item.reserve}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b">
+                        <td></td>
+                        <td colSpan={4} className="p-2">
+                          <ul>
+                            {owned.map((object) => (
+                              <ObjectRow key={object.index} object={object} />
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
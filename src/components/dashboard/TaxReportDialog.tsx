@@ -0,0 +1,264 @@
+import { useEffect, useRef, useState } from "react";
+import { Calculator, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { downloadBlob } from "@/lib/download";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  buildTaxReport,
+  COST_BASIS_LABELS,
+  fetchTaxHistory,
+  parsePriceFile,
+  serializeTaxReport,
+  validateXRPLAddress,
+  type CostBasisMethod,
+  type PriceTable,
+  type TaxReport,
+  type Transaction
+} from "@/services/xrpl";
+
+// The XRP Ledger's first ledger closed in January 2013.
+const FIRST_YEAR = 2013;
+
+const SummaryRow = ({ label, value }: { label: string; value: string | number }) => (
+  <>
+    <dt className="text-gray-500">{label}</dt>
+    <dd className="text-right font-medium">{value}</dd>
+  </>
+);
+
+export const TaxReportDialog = ({ address }: { address: string }) => {
+  const { networkId } = useNetwork();
+  const currentYear = new Date().getUTCFullYear();
+  const years = Array.from({ length: currentYear - FIRST_YEAR + 1 }, (_, index) => currentYear - index);
+
+  const [open, setOpen] = useState(false);
+  const [year, setYear] = useState(currentYear - 1);
+  const [method, setMethod] = useState<CostBasisMethod>("fifo");
+  const [fiat, setFiat] = useState("USD");
+  const [prices, setPrices] = useState<{ name: string; table: PriceTable } | null>(null);
+  const [ownAddresses, setOwnAddresses] = useState("");
+  const [scanned, setScanned] = useState<number | null>(null);
+  const [report, setReport] = useState<TaxReport | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Changing the method or prices should not re-read the whole history.
+  const historyRef = useRef<{ key: string; transactions: Transaction[] } | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) abortRef.current?.abort();
+    setOpen(next);
+  };
+
+  const handlePriceFile = async (file: File | undefined) => {
+    if (!file) return;
+    const table = parsePriceFile(await file.text());
+    if (table.size === 0) {
+      toast.error("No prices found; expected lines of date,asset,price");
+      return;
+    }
+    setPrices({ name: file.name, table });
+    setReport(null);
+  };
+
+  const handleGenerate = async () => {
+    if (!prices) {
+      toast.error("Choose a price file first");
+      return;
+    }
+    const own = ownAddresses.split(/[\s,]+/).filter(Boolean);
+    const invalid = own.find((entry) => !validateXRPLAddress(entry));
+    if (invalid) {
+      toast.error(`Not an XRPL address: ${invalid}`);
+      return;
+    }
+
+    const key = `${networkId}|${address}|${year}`;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setScanned(0);
+    try {
+      let transactions = historyRef.current?.key === key ? historyRef.current.transactions : null;
+      if (!transactions) {
+        transactions = await fetchTaxHistory(address, year, networkId, setScanned, controller.signal);
+        if (controller.signal.aborted) return;
+        historyRef.current = { key, transactions };
+      }
+      setReport(buildTaxReport(transactions, address, { year, method, prices: prices.table, ownAddresses: own }));
+    } catch (error) {
+      console.error("[XRPL] Tax report failed:", error);
+      toast.error("Report failed; the history could not be read completely");
+    } finally {
+      abortRef.current = null;
+      setScanned(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!report) return;
+    downloadBlob(
+      new Blob([serializeTaxReport(report, fiat)], { type: "text/csv;charset=utf-8" }),
+      `${address}-${networkId}-tax-${report.summary.year}-${report.summary.method}.csv`
+    );
+  };
+
+  const generating = scanned !== null;
+  const money = (value: number) => `${value.toFixed(2)} ${fiat}`;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Calculator className="h-4 w-4 mr-2" />
+          Tax report
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tax and accounting report</DialogTitle>
+          <DialogDescription>
+            Replays the whole account history to build cost-basis lots, then reports the chosen year's disposals, income
+            and fees. Trades and transfers out are disposals at market value; fees are disposals of XRP. This is not tax
+            advice; check the result against your jurisdiction's rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tax year</Label>
+              <Select
+                value={String(year)}
+                onValueChange={(value) => {
+                  setYear(Number(value));
+                  setReport(null);
+                }}
+                disabled={generating}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-fiat">Report currency</Label>
+              <Input id="tax-fiat" value={fiat} onChange={(e) => setFiat(e.target.value.toUpperCase())} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Cost-basis method</Label>
+            <Select
+              value={method}
+              onValueChange={(value) => {
+                setMethod(value as CostBasisMethod);
+                setReport(null);
+              }}
+              disabled={generating}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(COST_BASIS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tax-prices">Price file</Label>
+            <Input
+              id="tax-prices"
+              type="file"
+              accept=".csv,.json,.txt,text/csv"
+              onChange={(e) => handlePriceFile(e.target.files?.[0])}
+              disabled={generating}
+            />
+            <p className="text-xs text-gray-500">
+              {prices
+                ? `${prices.name}: prices for ${Array.from(prices.table.keys()).join(", ")}`
+                : "CSV lines of date,asset,price in the report currency, e.g. 2024-03-01,XRP,0.62, or the same as JSON. Use CODE.rIssuer for a specific issuer."}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tax-own">Your other addresses (optional)</Label>
+            <Textarea
+              id="tax-own"
+              rows={2}
+              placeholder="Movements to and from these are self-transfers, not disposals"
+              value={ownAddresses}
+              onChange={(e) => {
+                setOwnAddresses(e.target.value);
+                setReport(null);
+              }}
+            />
+          </div>
+
+          {generating && (
+            <p className="text-sm text-gray-500 flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Read {scanned.toLocaleString()} transactions…
+            </p>
+          )}
+
+          {report && (
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <h3 className="font-medium text-gray-600 mb-2">
+                {report.summary.year} · {COST_BASIS_LABELS[report.summary.method]}
+              </h3>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <SummaryRow label="Proceeds" value={money(report.summary.proceeds)} />
+                <SummaryRow label="Cost basis" value={money(report.summary.costBasis)} />
+                <SummaryRow label="Realised gain" value={money(report.summary.gain)} />
+                <SummaryRow label="Income" value={money(report.summary.income)} />
+                <SummaryRow label="Fees" value={money(report.summary.fees)} />
+                <SummaryRow label="Movements" value={report.events.length} />
+              </dl>
+              {(report.summary.missingPrices > 0 || report.summary.uncoveredDisposals > 0) && (
+                <p className="mt-2 text-xs text-yellow-800">
+                  {report.summary.missingPrices} movements had no price and {report.summary.uncoveredDisposals} disposals
+                  exceeded the tracked holdings; they are marked in the report.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleGenerate} disabled={generating}>
+            {generating ? "Generating…" : "Generate"}
+          </Button>
+          <Button onClick={handleDownload} disabled={!report}>
+            Download CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,114 @@
+import { Link } from "react-router-dom";
+import { Coins } from "lucide-react";
+import {
+  decodeCurrencyCode,
+  formatIssuedValue,
+  getPriceAssetKey,
+  shortenAddress,
+  type TrustLine
+} from "@/services/xrpl";
+import { useNetwork } from "@/hooks/use-network";
+import { FiatValue } from "@/components/FiatValue";
+
+const QUALITY_ONE = 1_000_000_000;
+
+// Quality 0 means "use the default", which is the same as 1:1.
+const formatQuality = (quality: number) =>
+  !quality || quality === QUALITY_ONE ? "1:1" : (quality / QUALITY_ONE).toFixed(9).replace(/0+$/, "");
+
+const FlagBadge = ({ label, tone = "gray" }: { label: string; tone?: "gray" | "red" | "green" }) => {
+  const tones = {
+    gray: "bg-gray-100 text-gray-800",
+    red: "bg-red-100 text-red-800",
+    green: "bg-green-100 text-green-800"
+  };
+  return <span className={`px-2 py-0.5 rounded-full text-xs ${tones[tone]}`}>{label}</span>;
+};
+
+interface TrustLinesPanelProps {
+  lines: TrustLine[];
+}
+
+export const TrustLinesPanel = ({ lines }: TrustLinesPanelProps) => {
+  const { path } = useNetwork();
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      <h2 className="text-2xl font-bold text-secondary mb-6 flex items-center gap-2">
+        <Coins className="h-6 w-6" />
+        Token Holdings
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-4">Currency</th>
+              <th className="text-left p-4">Issuer</th>
+              <th className="text-right p-4">Balance</th>
+              <th className="text-right p-4">Limit</th>
+              <th className="text-left p-4">Flags</th>
+              <th className="text-left p-4">Quality in / out</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="text-center py-8 text-gray-500">
+                  No trust lines found
+                </td>
+              </tr>
+            ) : (
+              lines.map((line) => {
+                const balance = parseFloat(line.balance);
+                return (
+                  <tr key={`${line.counterparty}-${line.currency}`} className="border-b hover:bg-gray-50">
+                    <td className="p-4 font-medium" title={line.currency}>
+                      {decodeCurrencyCode(line.currency)}
+                    </td>
+                    <td className="p-4">
+                      <Link
+                        to={path(`/dashboard/${line.counterparty}`)}
+                        className="font-mono text-sm text-primary hover:underline"
+                        title={line.counterparty}
+                      >
+                        {shortenAddress(line.counterparty)}
+                      </Link>
+                    </td>
+                    <td className={`p-4 text-right font-bold ${balance < 0 ? "text-[#ea384c]" : ""}`}>
+                      {formatIssuedValue(line.balance)}
+                      {balance > 0 && (
+                        <FiatValue
+                          asset={getPriceAssetKey(line.currency, line.counterparty)}
+                          quantity={balance}
+                          className="block text-xs font-normal text-gray-500"
+                        />
+                      )}
+                    </td>
+                    <td className="p-4 text-right text-sm">
+                      {formatIssuedValue(line.limit)}
+                      {parseFloat(line.limitPeer) > 0 && (
+                        <span className="block text-xs text-gray-500">peer {formatIssuedValue(line.limitPeer)}</span>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex flex-wrap gap-1">
+                        {line.noRipple ? <FlagBadge label="No rippling" /> : <FlagBadge label="Rippling" tone="green" />}
+                        {line.freeze && <FlagBadge label="Frozen by account" tone="red" />}
+                        {line.freezePeer && <FlagBadge label="Frozen by issuer" tone="red" />}
+                        {line.authorized && <FlagBadge label="Authorized" tone="green" />}
+                        {line.peerAuthorized && <FlagBadge label="Authorized by issuer" tone="green" />}
+                      </div>
+                    </td>
+                    <td className="p-4 text-sm font-mono">
+                      {formatQuality(line.qualityIn)} / {formatQuality(line.qualityOut)}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
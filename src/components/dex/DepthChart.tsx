@@ -0,0 +1,75 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { OrderBook, OrderBookOffer } from "@/services/xrpl";
+
+// Far-off-market offers would squash the interesting part of the chart.
+const MAX_DISTANCE_FROM_MID = 0.5;
+
+const chartConfig = {
+  bids: { label: "Bids", color: "hsl(142 71% 45%)" },
+  asks: { label: "Asks", color: "hsl(0 84% 60%)" }
+} satisfies ChartConfig;
+
+interface DepthPoint {
+  price: number;
+  bids?: number;
+  asks?: number;
+}
+
+const cumulative = (offers: OrderBookOffer[], key: "bids" | "asks", inRange: (price: number) => boolean) => {
+  let depth = 0;
+  return offers
+    .filter((offer) => inRange(offer.price))
+    .map((offer): DepthPoint => {
+      depth += offer.amount;
+      return { price: offer.price, [key]: depth };
+    });
+};
+
+const toDepthPoints = ({ bids, asks }: OrderBook): DepthPoint[] => {
+  const mid = bids.length > 0 && asks.length > 0 ? (bids[0].price + asks[0].price) / 2 : null;
+  const inRange = (price: number) => mid === null || Math.abs(price - mid) / mid <= MAX_DISTANCE_FROM_MID;
+  // Both sides start at the best price and grow away from the spread.
+  return [...cumulative(bids, "bids", inRange).reverse(), ...cumulative(asks, "asks", inRange)];
+};
+
+interface DepthChartProps {
+  book: OrderBook;
+  baseLabel: string;
+  counterLabel: string;
+}
+
+export const DepthChart = ({ book, baseLabel, counterLabel }: DepthChartProps) => {
+  const points = toDepthPoints(book);
+  if (points.length === 0) {
+    return <p className="text-center py-8 text-gray-500">No offers on this pair</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <AreaChart data={points} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="price"
+          type="number"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(price: number) => price.toPrecision(4)}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis tickLine={false} axisLine={false} width={64} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                `${Number(payload?.[0]?.payload?.price).toPrecision(6)} ${counterLabel} per ${baseLabel}`
+              }
+            />
+          }
+        />
+        <Area dataKey="bids" type="stepBefore" stroke="var(--color-bids)" fill="var(--color-bids)" fillOpacity={0.2} connectNulls={false} />
+        <Area dataKey="asks" type="stepAfter" stroke="var(--color-asks)" fill="var(--color-asks)" fillOpacity={0.2} connectNulls={false} />
+      </AreaChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { ImageOff, Loader2 } from "lucide-react";
+import type { NFTMetadata } from "@/services/xrpl";
+
+interface NFTMediaProps {
+  metadata: NFTMetadata | null;
+  loading: boolean;
+  className?: string;
+}
+
+export const NFTMedia = ({ metadata, loading, className = "" }: NFTMediaProps) => {
+  const [failed, setFailed] = useState(false);
+
+  if (loading) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-100 ${className}`}>
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!metadata?.image || failed) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-100 text-gray-400 ${className}`}>
+        <ImageOff className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={metadata.image}
+      alt={metadata.name ?? "NFT"}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={`object-cover bg-gray-100 ${className}`}
+    />
+  );
+};
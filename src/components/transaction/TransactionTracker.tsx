@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle, Clock, Loader2, XCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { trackTransaction, type NetworkId, type TransactionTrackingStatus } from "@/services/xrpl";
+
+interface TransactionTrackerProps {
+  hash: string;
+  network: NetworkId;
+  onValidated: () => void;
+}
+
+const ledgerProgress = ({ startLedger, currentLedger, lastLedgerSequence }: TransactionTrackingStatus) => {
+  if (lastLedgerSequence === undefined || lastLedgerSequence <= startLedger) return null;
+  const elapsed = Math.min(currentLedger, lastLedgerSequence) - startLedger;
+  return (elapsed / (lastLedgerSequence - startLedger)) * 100;
+};
+
+export const TransactionTracker = ({ hash, network, onValidated }: TransactionTrackerProps) => {
+  const [status, setStatus] = useState<TransactionTrackingStatus | null>(null);
+  // Kept in a ref so a new callback identity does not restart tracking.
+  const onValidatedRef = useRef(onValidated);
+  onValidatedRef.current = onValidated;
+
+  useEffect(() => {
+    setStatus(null);
+    return trackTransaction(hash, (update) => {
+      setStatus(update);
+      if (update.state === "validated") onValidatedRef.current();
+    }, network);
+  }, [hash, network]);
+
+  const progress = status && ledgerProgress(status);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+      {(!status || status.state === "pending") && (
+        <>
+          <h2 className="text-xl font-bold text-secondary flex items-center gap-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Pending
+          </h2>
+          <p className="text-gray-600">
+            {status?.seen
+              ? "The network has this transaction but it is not in a validated ledger yet."
+              : "Waiting for the network to pick up this transaction. This page updates with every new ledger."}
+          </p>
+        </>
+      )}
+
+      {status?.state === "validated" && (
+        <h2 className="text-xl font-bold text-secondary flex items-center gap-2">
+          <CheckCircle className="h-5 w-5 text-green-500" />
+          Validated in ledger #{status.ledgerIndex?.toLocaleString()}
+        </h2>
+      )}
+
+      {status?.state === "expired" && (
+        <>
+          <h2 className="text-xl font-bold text-secondary flex items-center gap-2">
+            <XCircle className="h-5 w-5 text-red-500" />
+            Expired
+          </h2>
+          <p className="text-gray-600">
+            Ledger #{status.lastLedgerSequence?.toLocaleString()} (its LastLedgerSequence) was validated without this
+            transaction, so it can no longer succeed. It is safe to submit it again.
+          </p>
+        </>
+      )}
+
+      {status?.state === "notFound" && (
+        <>
+          <h2 className="text-xl font-bold text-secondary flex items-center gap-2">
+            <XCircle className="h-5 w-5 text-red-500" />
+            Transaction not found
+          </h2>
+          <p className="text-gray-600">
+            No server has seen this transaction after {status.currentLedger - status.startLedger} ledgers. Check the hash
+            and the selected network.
+          </p>
+        </>
+      )}
+
+      {status && (
+        <div className="p-4 bg-primary/5 rounded-lg space-y-2 text-sm">
+          <p className="flex items-center gap-2 text-gray-600">
+            <Clock className="h-4 w-4" />
+            Validated ledger #{status.currentLedger.toLocaleString()}
+            {status.lastLedgerSequence !== undefined && (
+              <span>
+                {" "}of #{status.lastLedgerSequence.toLocaleString()}
+                {status.state === "pending" &&
+                  ` (${Math.max(0, status.lastLedgerSequence - status.currentLedger)} ledgers left)`}
+              </span>
+            )}
+          </p>
+          {progress !== null && <Progress value={progress} className="h-2" />}
+        </div>
+      )}
+
+      <p className="font-mono text-xs text-gray-500 break-all">{hash}</p>
+    </div>
+  );
+};
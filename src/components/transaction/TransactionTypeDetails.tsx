@@ -0,0 +1,156 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { isValidClassicAddress } from "xrpl";
+import { BookOpen, ListTree, Waves } from "lucide-react";
+import {
+  decodeCurrencyCode,
+  formatXRPAmount,
+  formatXRPLDate,
+  getAccountSetFlagName,
+  getAMMPoolPath,
+  getOrderBookPath,
+  hexToAscii,
+  parseAmount,
+  toBookAsset
+} from "@/services/xrpl";
+import { AmountDisplay } from "@/components/AmountDisplay";
+import { useNetwork } from "@/hooks/use-network";
+import { getTransactionFieldSpecs, resolveFieldValue, type FieldFormat } from "./renderers";
+
+const AddressValue = ({ value }: { value: string }) => {
+  const { path } = useNetwork();
+  if (!isValidClassicAddress(value)) {
+    return <span>{value}</span>;
+  }
+  return (
+    <Link to={path(`/dashboard/${value}`)} className="font-mono text-sm text-primary hover:underline break-all">
+      {value}
+    </Link>
+  );
+};
+
+// Hex blobs are usually ASCII (domains, URIs); fall back to the raw hex otherwise.
+const decodeHexText = (hex: string) => {
+  const text = hexToAscii(hex);
+  return /^[\x20-\x7E]+$/.test(text) ? text : hex;
+};
+
+const formatAsset = (value: unknown) => {
+  const asset = value as { currency?: string; issuer?: string } | undefined;
+  if (!asset?.currency) return String(value);
+  return asset.issuer ? `${decodeCurrencyCode(asset.currency)} (${asset.issuer})` : decodeCurrencyCode(asset.currency);
+};
+
+const renderValue = (value: unknown, format: FieldFormat = "text"): ReactNode => {
+  switch (format) {
+    case "address":
+      return <AddressValue value={String(value)} />;
+    case "amount": {
+      const amount = parseAmount(value as Parameters<typeof parseAmount>[0]);
+      return amount ? <AmountDisplay amount={amount} fullIssuer className="font-medium block" /> : String(value);
+    }
+    case "asset":
+      return formatAsset(value);
+    case "drops":
+      return formatXRPAmount(value as string);
+    case "rippleTime":
+      return formatXRPLDate(Number(value));
+    case "unixTime":
+      return new Date(Number(value) * 1000).toLocaleString();
+    case "seconds":
+      return `${Number(value).toLocaleString()} seconds`;
+    case "hex":
+      return <span className="break-all">{decodeHexText(String(value))}</span>;
+    case "transferRate": {
+      // TransferRate is a multiplier scaled by 1e9; 0 means no fee.
+      const rate = Number(value);
+      return rate === 0 ? "0%" : `${((rate / 1_000_000_000 - 1) * 100).toFixed(7).replace(/\.?0+$/, "")}%`;
+    }
+    case "tradingFee":
+    case "transferFee":
+      // Both are expressed in units of 1/100,000.
+      return `${(Number(value) / 1000).toFixed(3).replace(/\.?0+$/, "")}%`;
+    case "list":
+      return (
+        <ul className="space-y-1">
+          {(value as unknown[]).map((item, index) => (
+            <li key={index} className="font-mono text-xs break-all">{String(item)}</li>
+          ))}
+        </ul>
+      );
+    case "accountSetFlag":
+      return <span className="font-mono">{getAccountSetFlagName(value as number)}</span>;
+    default:
+      return <span className="break-all">{String(value)}</span>;
+  }
+};
+
+// OfferCreate sells TakerGets for TakerPays, so its book is quoted in TakerGets.
+const OrderBookLink = ({ txJson }: { txJson: Record<string, unknown> }) => {
+  const { path } = useNetwork();
+  const base = toBookAsset(txJson.TakerGets);
+  const counter = toBookAsset(txJson.TakerPays);
+  if (!base || !counter) return null;
+  return (
+    <Link
+      to={path(getOrderBookPath(base, counter))}
+      className="mt-3 inline-flex items-center gap-2 text-sm text-primary hover:underline"
+    >
+      <BookOpen className="h-4 w-4" />
+      View order book
+    </Link>
+  );
+};
+
+// AMMCreate names the pool by its initial deposit; the other AMM types by Asset/Asset2.
+const AMMPoolLink = ({ type, txJson }: { type: string; txJson: Record<string, unknown> }) => {
+  const { path } = useNetwork();
+  const asset = toBookAsset(type === "AMMCreate" ? txJson.Amount : txJson.Asset);
+  const asset2 = toBookAsset(type === "AMMCreate" ? txJson.Amount2 : txJson.Asset2);
+  if (!asset || !asset2) return null;
+  return (
+    <Link
+      to={path(getAMMPoolPath(asset, asset2))}
+      className="mt-3 inline-flex items-center gap-2 text-sm text-primary hover:underline"
+    >
+      <Waves className="h-4 w-4" />
+      View AMM pool
+    </Link>
+  );
+};
+
+interface TransactionTypeDetailsProps {
+  type: string;
+  txJson: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+export const TransactionTypeDetails = ({ type, txJson, meta }: TransactionTypeDetailsProps) => {
+  const specs = getTransactionFieldSpecs(type);
+  if (!specs) return null;
+
+  const rows = specs
+    .map((spec) => ({ spec, value: resolveFieldValue(spec, txJson, meta) }))
+    .filter(({ value }) => value !== undefined && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0));
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-primary/5 rounded-lg">
+      <h3 className="font-medium text-gray-600 mb-3 flex items-center gap-2">
+        <ListTree className="h-4 w-4" />
+        {type} details
+      </h3>
+      <dl className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-x-4 gap-y-2 text-sm">
+        {rows.map(({ spec, value }) => (
+          <div key={spec.label} className="contents">
+            <dt className="text-gray-500">{spec.label}</dt>
+            <dd>{renderValue(value, spec.format)}</dd>
+          </div>
+        ))}
+      </dl>
+      {type === "OfferCreate" && <OrderBookLink txJson={txJson} />}
+      {type.startsWith("AMM") && <AMMPoolLink type={type} txJson={txJson} />}
+    </div>
+  );
+};
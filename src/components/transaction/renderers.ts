@@ -0,0 +1,281 @@
+import { decodeCurrencyCode, formatIssuedValue } from "@/services/xrpl";
+
+// Field layouts for the Transaction page, keyed by TransactionType. Each entry
+// lists the fields worth showing for that type and how to format them; types
+// without an entry fall back to the generic card only.
+
+export type FieldFormat =
+  | "address"
+  | "amount"
+  | "asset"
+  | "drops"
+  | "rippleTime"
+  | "unixTime"
+  | "seconds"
+  | "hex"
+  | "text"
+  | "transferRate"
+  | "tradingFee"
+  | "transferFee"
+  | "list"
+  | "accountSetFlag";
+
+type TxJson = Record<string, unknown>;
+
+export interface TransactionFieldSpec {
+  label: string;
+  // A top-level tx_json field name, or a getter for derived values.
+  field: string | ((tx: TxJson, meta?: Record<string, unknown>) => unknown);
+  format?: FieldFormat;
+}
+
+const field = (name: string, format: FieldFormat = "text", label = name): TransactionFieldSpec => ({
+  label,
+  field: name,
+  format
+});
+
+const destination: TransactionFieldSpec[] = [
+  field("Destination", "address"),
+  field("DestinationTag", "text", "Destination Tag")
+];
+
+const ammPool: TransactionFieldSpec[] = [field("Asset", "asset"), field("Asset2", "asset", "Asset 2")];
+
+const signerEntries = (tx: TxJson) =>
+  (tx.SignerEntries as Array<{ SignerEntry: { Account: string; SignerWeight: number } }> | undefined)?.map(
+    ({ SignerEntry }) => `${SignerEntry.Account} (weight ${SignerEntry.SignerWeight})`
+  );
+
+const priceDataSeries = (tx: TxJson) =>
+  (tx.PriceDataSeries as Array<{ PriceData: Record<string, unknown> }> | undefined)?.map(({ PriceData }) => {
+    const scale = Number(PriceData.Scale ?? 0);
+    const price = PriceData.AssetPrice === undefined
+      ? "deleted"
+      : (parseInt(String(PriceData.AssetPrice), 16) / 10 ** scale).toString();
+    return `${PriceData.BaseAsset}/${PriceData.QuoteAsset} = ${price}`;
+  });
+
+const authAccounts = (tx: TxJson) =>
+  (tx.AuthAccounts as Array<{ AuthAccount: { Account: string } }> | undefined)?.map(
+    ({ AuthAccount }) => AuthAccount.Account
+  );
+
+const clawbackAmount = (tx: TxJson) => {
+  const amount = tx.Amount as { value?: string; currency?: string } | undefined;
+  return amount?.value ? `${formatIssuedValue(amount.value)} ${decodeCurrencyCode(amount.currency ?? "")}` : undefined;
+};
+
+const TRANSACTION_RENDERERS: Record<string, TransactionFieldSpec[]> = {
+  Payment: [
+    ...destination,
+    { label: "Delivered", field: (_tx, meta) => meta?.delivered_amount, format: "amount" },
+    { label: "Amount requested", field: (tx) => tx.DeliverMax ?? tx.Amount, format: "amount" },
+    field("SendMax", "amount", "Send Max"),
+    field("DeliverMin", "amount", "Deliver Min"),
+    field("InvoiceID", "text", "Invoice ID"),
+    { label: "Paths", field: (tx) => (Array.isArray(tx.Paths) ? `${tx.Paths.length} path(s)` : undefined) }
+  ],
+  OfferCreate: [
+    field("TakerGets", "amount", "Selling (TakerGets)"),
+    field("TakerPays", "amount", "Buying (TakerPays)"),
+    field("Expiration", "rippleTime"),
+    field("OfferSequence", "text", "Replaces Offer Sequence")
+  ],
+  OfferCancel: [field("OfferSequence", "text", "Offer Sequence")],
+  TrustSet: [
+    field("LimitAmount", "amount", "Limit"),
+    { label: "Issuer", field: (tx) => (tx.LimitAmount as { issuer?: string } | undefined)?.issuer, format: "address" },
+    field("QualityIn", "text", "Quality In"),
+    field("QualityOut", "text", "Quality Out")
+  ],
+  AccountSet: [
+    field("SetFlag", "accountSetFlag", "Set Flag"),
+    field("ClearFlag", "accountSetFlag", "Clear Flag"),
+    field("Domain", "hex"),
+    field("EmailHash", "text", "Email Hash"),
+    field("TransferRate", "transferRate", "Transfer Fee"),
+    field("TickSize", "text", "Tick Size"),
+    field("NFTokenMinter", "address", "NFToken Minter"),
+    field("MessageKey", "text", "Message Key")
+  ],
+  AccountDelete: destination,
+  SetRegularKey: [
+    { label: "Regular Key", field: (tx) => tx.RegularKey ?? "Removed", format: "address" }
+  ],
+  SignerListSet: [
+    field("SignerQuorum", "text", "Signer Quorum"),
+    { label: "Signers", field: signerEntries, format: "list" }
+  ],
+  TicketCreate: [field("TicketCount", "text", "Ticket Count")],
+  DepositPreauth: [
+    field("Authorize", "address"),
+    field("Unauthorize", "address")
+  ],
+  EscrowCreate: [
+    ...destination,
+    field("Amount", "amount"),
+    field("FinishAfter", "rippleTime", "Finish After"),
+    field("CancelAfter", "rippleTime", "Cancel After"),
+    field("Condition")
+  ],
+  EscrowFinish: [
+    field("Owner", "address"),
+    field("OfferSequence", "text", "Escrow Sequence"),
+    field("Condition"),
+    field("Fulfillment")
+  ],
+  EscrowCancel: [
+    field("Owner", "address"),
+    field("OfferSequence", "text", "Escrow Sequence")
+  ],
+  CheckCreate: [
+    ...destination,
+    field("SendMax", "amount", "Send Max"),
+    field("Expiration", "rippleTime"),
+    field("InvoiceID", "text", "Invoice ID")
+  ],
+  CheckCash: [
+    field("CheckID", "text", "Check ID"),
+    field("Amount", "amount"),
+    field("DeliverMin", "amount", "Deliver Min")
+  ],
+  CheckCancel: [field("CheckID", "text", "Check ID")],
+  PaymentChannelCreate: [
+    ...destination,
+    field("Amount", "amount"),
+    field("SettleDelay", "seconds", "Settle Delay"),
+    field("PublicKey", "text", "Public Key"),
+    field("CancelAfter", "rippleTime", "Cancel After")
+  ],
+  PaymentChannelFund: [
+    field("Channel"),
+    field("Amount", "amount"),
+    field("Expiration", "rippleTime")
+  ],
+  PaymentChannelClaim: [
+    field("Channel"),
+    field("Balance", "amount"),
+    field("Amount", "amount"),
+    field("PublicKey", "text", "Public Key")
+  ],
+  NFTokenMint: [
+    field("NFTokenTaxon", "text", "Taxon"),
+    field("Issuer", "address"),
+    field("TransferFee", "transferFee", "Transfer Fee"),
+    field("URI", "hex"),
+    field("Amount", "amount", "Sell Amount"),
+    field("Destination", "address"),
+    field("Expiration", "rippleTime")
+  ],
+  NFTokenBurn: [
+    field("NFTokenID", "text", "NFToken ID"),
+    field("Owner", "address")
+  ],
+  NFTokenModify: [
+    field("NFTokenID", "text", "NFToken ID"),
+    field("Owner", "address"),
+    field("URI", "hex")
+  ],
+  NFTokenCreateOffer: [
+    field("NFTokenID", "text", "NFToken ID"),
+    field("Amount", "amount"),
+    field("Owner", "address"),
+    field("Destination", "address"),
+    field("Expiration", "rippleTime")
+  ],
+  NFTokenCancelOffer: [field("NFTokenOffers", "list", "Offers")],
+  NFTokenAcceptOffer: [
+    field("NFTokenSellOffer", "text", "Sell Offer"),
+    field("NFTokenBuyOffer", "text", "Buy Offer"),
+    field("NFTokenBrokerFee", "amount", "Broker Fee")
+  ],
+  AMMCreate: [
+    field("Amount", "amount"),
+    field("Amount2", "amount", "Amount 2"),
+    field("TradingFee", "tradingFee", "Trading Fee")
+  ],
+  AMMDeposit: [
+    ...ammPool,
+    field("Amount", "amount"),
+    field("Amount2", "amount", "Amount 2"),
+    field("EPrice", "amount", "Effective Price"),
+    field("LPTokenOut", "amount", "LP Tokens Out")
+  ],
+  AMMWithdraw: [
+    ...ammPool,
+    field("Amount", "amount"),
+    field("Amount2", "amount", "Amount 2"),
+    field("EPrice", "amount", "Effective Price"),
+    field("LPTokenIn", "amount", "LP Tokens In")
+  ],
+  AMMVote: [...ammPool, field("TradingFee", "tradingFee", "Trading Fee")],
+  AMMBid: [
+    ...ammPool,
+    field("BidMin", "amount", "Bid Min"),
+    field("BidMax", "amount", "Bid Max"),
+    { label: "Auth Accounts", field: authAccounts, format: "list" }
+  ],
+  AMMDelete: ammPool,
+  AMMClawback: [field("Holder", "address"), ...ammPool, field("Amount", "amount")],
+  Clawback: [
+    // For IOUs the Amount issuer field names the holder being clawed back from.
+    { label: "Holder", field: (tx) => tx.Holder ?? (tx.Amount as { issuer?: string } | undefined)?.issuer, format: "address" },
+    { label: "Amount", field: clawbackAmount }
+  ],
+  DIDSet: [
+    field("URI", "hex"),
+    field("DIDDocument", "hex", "DID Document"),
+    field("Data", "hex")
+  ],
+  DIDDelete: [],
+  OracleSet: [
+    field("OracleDocumentID", "text", "Oracle Document ID"),
+    field("Provider", "hex"),
+    field("AssetClass", "hex", "Asset Class"),
+    field("LastUpdateTime", "unixTime", "Last Update Time"),
+    field("URI", "hex"),
+    { label: "Prices", field: priceDataSeries, format: "list" }
+  ],
+  OracleDelete: [field("OracleDocumentID", "text", "Oracle Document ID")],
+  MPTokenIssuanceCreate: [
+    field("AssetScale", "text", "Asset Scale"),
+    field("MaximumAmount", "text", "Maximum Amount"),
+    field("TransferFee", "transferFee", "Transfer Fee"),
+    field("MPTokenMetadata", "hex", "Metadata")
+  ],
+  MPTokenIssuanceDestroy: [field("MPTokenIssuanceID", "text", "Issuance ID")],
+  MPTokenIssuanceSet: [field("MPTokenIssuanceID", "text", "Issuance ID"), field("Holder", "address")],
+  MPTokenAuthorize: [field("MPTokenIssuanceID", "text", "Issuance ID"), field("Holder", "address")],
+  CredentialCreate: [
+    field("Subject", "address"),
+    field("CredentialType", "hex", "Credential Type"),
+    field("Expiration", "rippleTime"),
+    field("URI", "hex")
+  ],
+  CredentialAccept: [field("Issuer", "address"), field("CredentialType", "hex", "Credential Type")],
+  CredentialDelete: [
+    field("Subject", "address"),
+    field("Issuer", "address"),
+    field("CredentialType", "hex", "Credential Type")
+  ],
+  EnableAmendment: [field("Amendment"), field("LedgerSequence", "text", "Ledger")],
+  SetFee: [
+    field("BaseFeeDrops", "drops", "Base Fee"),
+    field("ReserveBaseDrops", "drops", "Base Reserve"),
+    field("ReserveIncrementDrops", "drops", "Owner Reserve")
+  ],
+  UNLModify: [
+    field("UNLModifyDisabling", "text", "Disabling"),
+    field("UNLModifyValidator", "text", "Validator")
+  ]
+};
+
+export const getTransactionFieldSpecs = (type: string): TransactionFieldSpec[] | undefined =>
+  TRANSACTION_RENDERERS[type];
+
+export const resolveFieldValue = (
+  spec: TransactionFieldSpec,
+  tx: TxJson,
+  meta?: Record<string, unknown>
+): unknown => (typeof spec.field === "function" ? spec.field(tx, meta) : tx[spec.field]);
@@ -0,0 +1,69 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  createPriceSource,
+  getPriceSettings,
+  getStoredPriceFile,
+  savePriceSettings,
+  storePriceFile,
+  type PriceSettings,
+  type PriceSource
+} from "@/services/xrpl";
+
+type PriceContextType = {
+  settings: PriceSettings;
+  source: PriceSource | null;
+  updateSettings: (settings: PriceSettings, priceFile?: string) => void;
+};
+
+const PriceContext = createContext<PriceContextType | undefined>(undefined);
+
+export const PriceProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState<PriceSettings>(getPriceSettings);
+  const [priceFile, setPriceFile] = useState(getStoredPriceFile);
+
+  const source = useMemo(() => createPriceSource(settings, priceFile), [settings, priceFile]);
+
+  const updateSettings = (next: PriceSettings, file?: string) => {
+    if (file !== undefined) {
+      storePriceFile(file);
+      setPriceFile(file);
+    }
+    savePriceSettings(next);
+    setSettings(next);
+  };
+
+  return <PriceContext.Provider value={{ settings, source, updateSettings }}>{children}</PriceContext.Provider>;
+};
+
+export const usePrices = () => {
+  const context = useContext(PriceContext);
+  if (context === undefined) {
+    throw new Error("usePrices must be used within a PriceProvider");
+  }
+  return context;
+};
+
+/**
+ * Fiat value of a quantity of an asset in the chosen display currency, at the
+ * given ISO time or now. Undefined while loading or when the source has no price.
+ */
+export const useFiatValue = (asset: string | undefined, quantity: number | undefined, date?: string) => {
+  const { settings, source } = usePrices();
+  const { networkId } = useNetwork();
+  const [price, setPrice] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    setPrice(undefined);
+    if (!source || !asset || (date && !source.historical)) return;
+    let cancelled = false;
+    source.getPrice({ asset, currency: settings.currency, date }, networkId).then((result) => {
+      if (!cancelled) setPrice(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, asset, date, settings.currency, networkId]);
+
+  return price === undefined || quantity === undefined ? undefined : price * quantity;
+};
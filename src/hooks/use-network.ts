@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import {
+  DEFAULT_NETWORK,
+  getNetwork,
+  isNetworkId,
+  networkPath,
+  type NetworkId,
+} from "@/services/xrpl";
+
+export function useNetwork() {
+  const params = useParams<{ network?: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const networkId: NetworkId = isNetworkId(params.network) ? params.network : DEFAULT_NETWORK;
+  const network = useMemo(() => getNetwork(networkId), [networkId]);
+
+  const path = useCallback((to: string) => networkPath(networkId, to), [networkId]);
+
+  const switchNetwork = useCallback(
+    (target: NetworkId) => {
+      const prefix = networkId === DEFAULT_NETWORK ? "" : `/${networkId}`;
+      const rest = location.pathname.slice(prefix.length) || "/";
+      // Accounts can exist on several networks; transaction hashes cannot.
+      const keep = rest.startsWith("/dashboard/") ? rest : "/";
+      navigate(networkPath(target, keep));
+    },
+    [location.pathname, navigate, networkId]
+  );
+
+  return { networkId, network, path, switchNetwork };
+}
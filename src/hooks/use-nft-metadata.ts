@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { fetchNFTMetadata, type NFTMetadata } from "@/services/xrpl";
+
+export function useNFTMetadata(uri: string | undefined) {
+  const [metadata, setMetadata] = useState<NFTMetadata | null>(null);
+  const [loading, setLoading] = useState(Boolean(uri));
+
+  useEffect(() => {
+    setMetadata(null);
+    if (!uri) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    fetchNFTMetadata(uri).then((result) => {
+      if (cancelled) return;
+      setMetadata(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  return { metadata, loading };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { fetchPaymentObjects, type PaymentObjects } from "@/services/xrpl";
+import { useNetwork } from "@/hooks/use-network";
+
+const EMPTY: PaymentObjects = { escrows: [], checks: [], channels: [] };
+
+// refreshKey changes when a new transaction lands that may have created or closed an object.
+export function usePaymentObjects(address: string | undefined, refreshKey?: string) {
+  const { networkId } = useNetwork();
+  const [objects, setObjects] = useState<PaymentObjects>(EMPTY);
+  const [loading, setLoading] = useState(Boolean(address));
+
+  // Another account starts empty rather than showing the previous one's objects while it loads.
+  useEffect(() => {
+    setObjects(EMPTY);
+    setLoading(Boolean(address));
+  }, [address, networkId]);
+
+  useEffect(() => {
+    if (!address) {
+      setObjects(EMPTY);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    fetchPaymentObjects(address, networkId).then((result) => {
+      if (cancelled) return;
+      setObjects(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, networkId, refreshKey]);
+
+  return { ...objects, loading };
+}
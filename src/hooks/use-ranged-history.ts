@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useNetwork } from "@/hooks/use-network";
+import { getHistoryRangeStart, type HistoryRangeId } from "@/lib/history-ranges";
+import type { NetworkId } from "@/services/xrpl";
+
+export type HistoryLoader<T> = (
+  address: string,
+  since: Date | undefined,
+  network: NetworkId,
+  onProgress: (scanned: number) => void,
+  signal: AbortSignal
+) => Promise<T>;
+
+interface LoadedHistory<T> {
+  key: string;
+  // Start of the loaded window; undefined once the whole history is loaded.
+  since?: number;
+  value: T;
+}
+
+/**
+ * Walks the account's history back to the start of `range` with `load`, which
+ * must be stable across renders. Returns what was loaded for this account, the
+ * range start and how many transactions the running walk has read so far.
+ */
+export function useRangedHistory<T extends { complete: boolean }>(
+  address: string,
+  range: HistoryRangeId,
+  load: HistoryLoader<T>,
+  errorMessage: string
+) {
+  const { networkId } = useNetwork();
+  const [loaded, setLoaded] = useState<LoadedHistory<T> | null>(null);
+  const [scanned, setScanned] = useState<number | null>(null);
+
+  const key = `${networkId}|${address}`;
+  const start = getHistoryRangeStart(range);
+  const history = loaded?.key === key ? loaded : null;
+
+  // A longer range than the one loaded needs a new walk back; a shorter one reuses it.
+  const covered =
+    history !== null &&
+    (history.value.complete || (start !== undefined && history.since !== undefined && history.since <= start));
+
+  useEffect(() => {
+    if (!address || covered) return;
+    let cancelled = false;
+    const controller = new AbortController();
+    setScanned(0);
+
+    load(address, start === undefined ? undefined : new Date(start), networkId, setScanned, controller.signal)
+      .then((value) => {
+        if (!cancelled) setLoaded({ key, since: start, value });
+      })
+      .catch((error) => {
+        console.error(`[XRPL] ${errorMessage}:`, error);
+        if (!cancelled) toast.error(errorMessage);
+      })
+      .finally(() => {
+        if (!cancelled) setScanned(null);
+      });
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [address, networkId, key, start, covered, load, errorMessage]);
+
+  return { history, start, scanned };
+}
@@ -0,0 +1,17 @@
+export type HistoryRangeId = "1m" | "3m" | "1y" | "all";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const HISTORY_RANGES: Record<HistoryRangeId, { label: string; days?: number }> = {
+  "1m": { label: "1M", days: 30 },
+  "3m": { label: "3M", days: 90 },
+  "1y": { label: "1Y", days: 365 },
+  all: { label: "All" }
+};
+
+// Start of the range in Unix milliseconds, rounded to the UTC day so it stays
+// stable across renders; undefined for the whole history.
+export const getHistoryRangeStart = (range: HistoryRangeId, now = Date.now()): number | undefined => {
+  const { days } = HISTORY_RANGES[range];
+  return days === undefined ? undefined : Math.floor(now / DAY) * DAY - days * DAY;
+};
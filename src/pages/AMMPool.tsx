@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { isValidClassicAddress } from "xrpl";
+import {
+  fetchAMMInfo,
+  formatCurrency,
+  parseBookAsset,
+  type AMMPool as AMMPoolDetails,
+  type AMMPoolQuery
+} from "../services/xrpl";
+import { Breadcrumb, BreadcrumbItem, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import { Footer } from "@/components/ui/footer";
+import { LanguageSelector } from "@/components/LanguageSelector";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { AMMPoolView } from "@/components/amm/AMMPoolView";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useNetwork } from "@/hooks/use-network";
+import { Waves } from "lucide-react";
+
+// /amm/:account names the pool's AMM account; /amm/:asset/:asset2 its asset pair.
+const toPoolQuery = ({ account, asset, asset2 }: Record<string, string | undefined>): AMMPoolQuery | null => {
+  if (account) {
+    return isValidClassicAddress(account) ? { account } : null;
+  }
+  const first = asset ? parseBookAsset(asset) : null;
+  const second = asset2 ? parseBookAsset(asset2) : null;
+  return first && second ? { asset: first, asset2: second } : null;
+};
+
+const AMMPool = () => {
+  const { account, asset, asset2 } = useParams<{ account: string; asset: string; asset2: string }>();
+  const query = useMemo(() => toPoolQuery({ account, asset, asset2 }), [account, asset, asset2]);
+  const [pool, setPool] = useState<AMMPoolDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { t } = useLanguage();
+  const { networkId, path } = useNetwork();
+
+  useEffect(() => {
+    if (!query) {
+      setPool(null);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    const loadPool = async () => {
+      setLoading(true);
+      const result = await fetchAMMInfo(query, networkId);
+      if (cancelled) return;
+      setPool(result);
+      setLoading(false);
+    };
+
+    loadPool();
+    return () => {
+      cancelled = true;
+    };
+  }, [query, networkId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!pool) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800">AMM pool not found</h1>
+          <p className="mt-2 text-gray-600">
+            There is no AMM pool for this account or asset pair on this network.
+          </p>
+          <Link
+            to={path("/")}
+            className="mt-4 inline-block px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+          >
+            {t("common.returnHome")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const pairLabel = `${formatCurrency(pool.amount)}/${formatCurrency(pool.amount2)}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 to-secondary/5 p-4 sm:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <Link to={path("/")} className="text-primary hover:text-primary/90">
+                  {t("nav.home")}
+                </Link>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <span>AMM</span>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <span>{pairLabel}</span>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+          <div className="flex items-center gap-2">
+            <NetworkSelector />
+            <LanguageSelector />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+          <h1 className="text-2xl font-bold text-secondary mb-2 flex items-center gap-2">
+            <Waves className="h-6 w-6" />
+            {pairLabel} pool
+          </h1>
+          <p className="mb-6 text-sm text-gray-600">
+            AMM account{" "}
+            <Link to={path(`/dashboard/${pool.account}`)} className="font-mono text-primary hover:underline break-all">
+              {pool.account}
+            </Link>
+          </p>
+          <AMMPoolView pool={pool} />
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default AMMPool;
@@ -1,31 +1,70 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import {
-  fetchTransactions,
+  fetchTransactionsPage,
   fetchBalance,
+  fetchTrustLines,
+  fetchAMMInfo,
+  getAMMAccountPath,
+  isAMMAccount,
+  type AMMPool,
   type Transaction,
   type BalanceDetails,
-  validateXRPLAddress
+  type TrustLine,
+  type LedgerClosedEvent,
+  decodeAccountRootFlags,
+  decodeXRPLAddress,
+  formatAmount,
+  getAccountBalanceChanges,
+  getPriceAssetKey,
+  getPriceQuantity,
+  shortenAddress,
+  subscribeToStreams,
+  isXAddressNetworkMismatch
 } from "../services/xrpl";
 import { toast } from "sonner";
 import QRCodeStyling from "qr-code-styling";
 import { Footer } from "@/components/ui/footer";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { LanguageSelector } from "@/components/LanguageSelector";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { PriceSourceSelector } from "@/components/PriceSourceSelector";
+import { FiatValue } from "@/components/FiatValue";
+import { AmountDisplay } from "@/components/AmountDisplay";
+import { BalanceChangeValue } from "@/components/BalanceChanges";
+import { TrustLinesPanel } from "@/components/dashboard/TrustLinesPanel";
+import { ReserveBreakdown } from "@/components/dashboard/ReserveBreakdown";
+import { FlagList } from "@/components/FlagList";
+import { SearchBar } from "@/components/SearchBar";
+import { NFTGallery } from "@/components/dashboard/NFTGallery";
+import { OffersPanel } from "@/components/dashboard/OffersPanel";
+import { BalanceHistoryChart } from "@/components/dashboard/BalanceHistoryChart";
+import { ActivityAnalytics } from "@/components/dashboard/ActivityAnalytics";
+import { ExportDialog } from "@/components/dashboard/ExportDialog";
+import { TaxReportDialog } from "@/components/dashboard/TaxReportDialog";
+import { ChannelsPanel, ChecksPanel, EscrowsPanel } from "@/components/dashboard/PaymentObjectsPanels";
+import { AMMPoolView } from "@/components/amm/AMMPoolView";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useNetwork } from "@/hooks/use-network";
 import {
   Wallet,
-  Search,
   QrCode,
   ArrowLeftRight,
   Hash,
   Code,
-  Copy
+  Copy,
+  Droplets,
+  Flag,
+  Radio,
+  Waves
 } from "lucide-react";
 
+// Live transactions of one ledger arrive within a moment of each other.
+const LIVE_UPDATE_DELAY_MS = 500;
+
 const VanityQRCode = ({ data }: { data: string }) => {
   const ref = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -66,9 +105,14 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
 //   return (last && last !== "Unknown") ? last : demoAddress;
 // };
 
-  const effectiveAddress = !address || address === "default" ? demoAddress : address;
+  const requestedAddress = !address || address === "default" ? demoAddress : address;
+  // X-addresses resolve to their classic account; the tag narrows the transaction list.
+  const decodedAddress = decodeXRPLAddress(requestedAddress);
+  const effectiveAddress = decodedAddress?.classicAddress ?? requestedAddress;
+  const destinationTag = decodedAddress?.tag;
   
   const { t } = useLanguage();
+  const { networkId, network, path } = useNetwork();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [rawResponse, setRawResponse] = useState<string>("");
   const [balance, setBalance] = useState<BalanceDetails>({
@@ -76,8 +120,16 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
     available: "0.000000 XRP",
     reserve: "0.000000 XRP"
   });
+  const [trustLines, setTrustLines] = useState<TrustLine[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchAddress, setSearchAddress] = useState("");
+  const [marker, setMarker] = useState<unknown>(undefined);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [latestLedger, setLatestLedger] = useState<LedgerClosedEvent | null>(null);
+  const [activeTab, setActiveTab] = useState("transactions");
+  const [ammPool, setAmmPool] = useState<AMMPool | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Bumped whenever the list is reloaded, so a page requested for the previous list is dropped.
+  const listVersion = useRef(0);
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
   const [showLogs, setShowLogs] = useState(false);
   const navigate = useNavigate();
@@ -89,59 +141,155 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
 
   useEffect(() => {
     const loadData = async () => {
-      addLog(`Starting loadData. Address: ${effectiveAddress}`);
+      addLog(`Starting loadData. Address: ${effectiveAddress}, network: ${networkId}`);
       if (!effectiveAddress) {
         addLog("No address provided, skipping data load.");
         setLoading(false);
         return;
       }
       setLoading(true);
+      const version = ++listVersion.current;
       try {
         addLog("Fetching transactions and balance.");
-        const [txs, bal] = await Promise.all([
-          fetchTransactions(effectiveAddress),
-          fetchBalance(effectiveAddress)
+        setMarker(undefined);
+        const [page, bal, lines] = await Promise.all([
+          fetchTransactionsPage(effectiveAddress, {}, networkId).catch((error) => {
+            addLog("Error fetching transactions: " + error);
+            toast.error("Failed to fetch transactions");
+            return { transactions: [], marker: undefined };
+          }),
+          fetchBalance(effectiveAddress, networkId),
+          fetchTrustLines(effectiveAddress, networkId)
         ]);
-        addLog(`Fetched transactions: ${txs.length}, balance: ${bal.total}`);
+        if (version !== listVersion.current) return;
+        const txs = page.transactions;
+        addLog(`Fetched transactions: ${txs.length}, balance: ${bal.total}, trust lines: ${lines.length}`);
         const consoleOutput = (window as any).__xrpl_debug_response;
         if (consoleOutput) {
           setRawResponse(JSON.stringify(consoleOutput, null, 2));
           addLog("Raw response logged.");
         }
         setTransactions(txs);
+        setMarker(page.marker);
         setBalance(bal);
+        setTrustLines(lines);
         addLog("Vanity QR code will be rendered using qr-code-styling.");
       } catch (error) {
         addLog("Error loading data: " + error);
         console.error("[Dashboard] Error loading data:", error);
         toast.error("Failed to load dashboard data");
       } finally {
-        setLoading(false);
+        if (version === listVersion.current) setLoading(false);
         addLog("Finished loadData.");
       }
     };
     loadData();
-  }, [effectiveAddress]);
+  }, [effectiveAddress, networkId]);
 
-  const handleSearch = () => {
-    addLog("Search button pressed.");
-    if (!searchAddress) {
-      toast.error("Please enter an XRPL address");
-      addLog("Search aborted: No address provided.");
-      return;
-    }
-    if (!validateXRPLAddress(searchAddress)) {
-      toast.error("Invalid XRPL address format");
-      addLog("Search aborted: Invalid XRPL address.");
-      return;
+  // Live updates: prepend newly validated transactions and refresh balances as they land.
+  useEffect(() => {
+    if (!effectiveAddress) return;
+    setLatestLedger(null);
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Ledgers with live transactions not yet applied; a busy account sees several per ledger.
+    const pending = new Set<number>();
+
+    const applyLiveUpdates = async () => {
+      const ledgers = Array.from(pending);
+      pending.clear();
+      try {
+        const [page, bal, lines] = await Promise.all([
+          fetchTransactionsPage(
+            effectiveAddress,
+            { ledgerIndexMin: Math.min(...ledgers), ledgerIndexMax: Math.max(...ledgers) },
+            networkId
+          ),
+          fetchBalance(effectiveAddress, networkId),
+          fetchTrustLines(effectiveAddress, networkId)
+        ]);
+        if (cancelled) return;
+        setTransactions(prev => {
+          const seen = new Set(prev.map(tx => tx.hash));
+          return [...page.transactions.filter(tx => !seen.has(tx.hash)), ...prev];
+        });
+        setBalance(bal);
+        setTrustLines(lines);
+      } catch (error) {
+        console.error("[Dashboard] Error applying live update:", error);
+      }
+    };
+
+    const unsubscribe = subscribeToStreams(effectiveAddress, {
+      onTransaction: (event) => {
+        console.log(`[Dashboard] Live transaction ${event.hash} in ledger ${event.ledgerIndex}`);
+        if (event.isIncomingPayment && event.result === "tesSUCCESS") {
+          toast.success(`Incoming payment: ${formatAmount(event.amount)}`, {
+            description: `From ${shortenAddress(event.account)}`
+          });
+        }
+        // Transactions of one ledger arrive together, so a short wait refreshes once per ledger.
+        pending.add(event.ledgerIndex);
+        clearTimeout(timer);
+        timer = setTimeout(applyLiveUpdates, LIVE_UPDATE_DELAY_MS);
+      },
+      onLedgerClosed: setLatestLedger
+    }, networkId);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [effectiveAddress, networkId]);
+
+  // AMM pseudo-accounts get their pool view instead of the trust line list, which is mostly LP holders.
+  const isAMM = isAMMAccount(balance.flags, balance.ammId);
+  useEffect(() => {
+    setAmmPool(null);
+    if (!isAMM || !effectiveAddress) return;
+    let cancelled = false;
+    fetchAMMInfo({ account: effectiveAddress }, networkId).then((pool) => {
+      if (!cancelled) setAmmPool(pool);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAMM, effectiveAddress, networkId]);
+
+  const hasMore = marker !== undefined && marker !== null;
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loadingMore) return;
+    setLoadingMore(true);
+    const version = listVersion.current;
+    try {
+      const page = await fetchTransactionsPage(effectiveAddress, { marker }, networkId);
+      if (version !== listVersion.current) return;
+      setTransactions(prev => [...prev, ...page.transactions]);
+      setMarker(page.marker);
+    } catch (error) {
+      console.error("[Dashboard] Error loading more transactions:", error);
+      toast.error("Failed to load more transactions");
+    } finally {
+      setLoadingMore(false);
     }
-    addLog("Navigating to dashboard for address: " + searchAddress);
-    navigate(`/dashboard/${searchAddress}`);
-  };
+  }, [effectiveAddress, hasMore, loadingMore, marker, networkId]);
+
+  // Infinite scroll: fetch the next page when the sentinel below the table comes into view.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMore();
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, activeTab]);
 
   const handleAddressClick = (clickedAddress: string) => {
     addLog("Address clicked: " + clickedAddress);
-    navigate(`/dashboard/${clickedAddress}`);
+    navigate(path(`/dashboard/${clickedAddress}`));
   };
 
   const copyToClipboard = (text: string) => {
@@ -149,22 +297,58 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
     toast.success("Copied to clipboard!");
   };
 
+  // Only payments carry a destination tag that identifies the recipient.
+  const visibleTransactions = destinationTag === undefined
+    ? transactions
+    : transactions.filter((tx) =>
+        tx.type === "Payment" && tx.to === effectiveAddress && tx.destinationTag === destinationTag
+      );
+
   const getMoneyFlowIndicator = (tx: Transaction, currentAddress?: string) => {
     if (!currentAddress || !tx.from) return null;
+    // Metadata-derived deltas are exact; the Sent/Received guess is only for cached rows without them.
+    if (tx.balanceChanges) {
+      const changes = getAccountBalanceChanges(tx.balanceChanges, currentAddress);
+      if (changes.length === 0) {
+        return <span className="text-xs text-gray-500">No balance change</span>;
+      }
+      return (
+        <div className="flex flex-col gap-0.5">
+          {changes.map((change) => (
+            <BalanceChangeValue
+              key={`${change.currency}-${change.issuer}-${change.isFee ? "fee" : "net"}`}
+              change={change}
+            />
+          ))}
+          {changes
+            .filter((change) => !change.isFee)
+            .map((change) => (
+              <FiatValue
+                key={`${change.currency}-${change.issuer}-fiat`}
+                asset={getPriceAssetKey(change.currency, change.issuer)}
+                quantity={Number(change.value)}
+                date={tx.closeTime}
+              />
+            ))}
+        </div>
+      );
+    }
     const isOutgoing = tx.from.toLowerCase() === currentAddress.toLowerCase();
+    const fiat = tx.parsedAmount ? getPriceQuantity(tx.parsedAmount) : undefined;
     return (
       <div className={`flex items-center gap-1 ${isOutgoing ? "text-[#ea384c]" : "text-[#1EAEDB]"}`}>
         {isOutgoing ? (
           <>
             <span className="text-xs">↓ Sent</span>
-            <span className="font-bold">{tx.amount}</span>
+            <AmountDisplay amount={tx.parsedAmount} fallback={tx.amount} className="font-bold" />
           </>
         ) : (
           <>
             <span className="text-xs">↑ Received</span>
-            <span className="font-bold">{tx.amount}</span>
+            <AmountDisplay amount={tx.parsedAmount} fallback={tx.amount} className="font-bold" />
           </>
         )}
+        <FiatValue asset={fiat?.asset} quantity={fiat?.quantity} date={tx.closeTime} />
       </div>
     );
   };
@@ -185,7 +369,7 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
           <Breadcrumb>
             <BreadcrumbList>
               <BreadcrumbItem>
-                <Link to="/" className="text-primary hover:text-primary/90">
+                <Link to={path("/")} className="text-primary hover:text-primary/90">
                   {t("nav.home")}
                 </Link>
               </BreadcrumbItem>
@@ -195,14 +379,40 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
               </BreadcrumbItem>
             </BreadcrumbList>
           </Breadcrumb>
-          <LanguageSelector />
+          <div className="flex items-center gap-2">
+            <NetworkSelector />
+            <PriceSourceSelector />
+            <LanguageSelector />
+          </div>
         </div>
 
         <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
           <h1 className="text-2xl font-bold text-secondary mb-4 flex items-center gap-2">
             <Wallet className="h-6 w-6" />
             {t("dashboard.title")}
+            {networkId !== "mainnet" && (
+              <span className="bg-yellow-100 text-yellow-800 text-xs font-medium px-2 py-1 rounded-full">
+                {network.explorerLabel}
+              </span>
+            )}
           </h1>
+          {decodedAddress && isXAddressNetworkMismatch(decodedAddress, networkId) && (
+            <p className="mb-4 p-3 rounded-lg bg-yellow-100 text-yellow-800 text-sm">
+              This X-address is encoded for {decodedAddress.isTestNetwork ? "a test network" : "mainnet"}, but you
+              are viewing {network.name}.
+            </p>
+          )}
+          {network.hasFaucet && network.faucetUrl && (
+            <a
+              href={network.faucetUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mb-4 inline-flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <Droplets className="h-4 w-4" />
+              Fund a {network.name} account from the faucet
+            </a>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6">
             <div className="p-4 bg-primary/10 rounded-lg flex flex-col gap-2">
               <div className="flex items-center justify-between">
@@ -215,6 +425,11 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
                 </Button>
               </div>
               <p className="font-mono text-sm break-all">{effectiveAddress || "Example: rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32"}</p>
+              {destinationTag !== undefined && (
+                <span className="self-start px-2 py-1 rounded-full text-xs bg-primary/10 text-primary">
+                  Destination tag {destinationTag}
+                </span>
+              )}
             </div>
             <div className="p-4 bg-primary/10 rounded-lg">
               <p className="text-sm text-gray-600 flex items-center gap-2">
@@ -222,6 +437,7 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
                 {t("dashboard.totalBalance")}
               </p>
               <p className="font-bold text-xl">{balance.total}</p>
+              <FiatValue asset="XRP" quantity={parseFloat(balance.total)} className="text-sm text-gray-600" />
             </div>
             <div className="p-4 bg-primary/10 rounded-lg">
               <p className="text-sm text-gray-600 flex items-center gap-2">
@@ -229,6 +445,7 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
                 {t("dashboard.availableBalance")}
               </p>
               <p className="font-bold text-xl">{balance.available}</p>
+              <FiatValue asset="XRP" quantity={parseFloat(balance.available)} className="text-sm text-gray-600" />
             </div>
             <div className="p-4 bg-primary/10 rounded-lg flex justify-center items-center">
               <div style={{ textAlign: "center" }}>
@@ -250,24 +467,33 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
             </div>
           </div>
 
-          <div className="flex flex-col gap-2 mb-6">
-            <div className="flex gap-2">
-              <Input
-                placeholder="Enter XRPL address"
-                value={searchAddress}
-                onChange={(e) => setSearchAddress(e.target.value)}
-                className="font-mono"
-                onKeyPress={(e) => { if (e.key === "Enter") handleSearch(); }}
+          <ReserveBreakdown address={effectiveAddress} balance={balance} />
+
+          {balance.flags !== undefined && (
+            <div className="mb-6">
+              <FlagList
+                flags={decodeAccountRootFlags(balance.flags)}
+                icon={<Flag className="h-4 w-4" />}
+                title="Account flags"
+                emptyText="No account flags set"
               />
-              <Button onClick={handleSearch}>
-                <Search className="h-4 w-4 mr-2" />
-                {t("dashboard.search")}
-              </Button>
             </div>
+          )}
+
+          <div className="flex flex-col gap-2 mb-6">
+            <SearchBar
+              buttonLabel={t("dashboard.search")}
+              placeholder="Address, transaction hash, ledger, NFT ID or domain"
+              onNavigate={(result) => addLog(`Navigating to ${result.kind}: ${result.value}`)}
+            />
             <p className="font-mono text-xs break-all">
               Example: rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32
             </p>
-            </div>
+          </div>
+          <div className="mb-4 flex flex-wrap gap-2">
+            <ExportDialog address={effectiveAddress} />
+            <TaxReportDialog address={effectiveAddress} />
+          </div>
           <Collapsible className="mb-4">
             <CollapsibleTrigger className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700">
               <Code className="h-4 w-4" />
@@ -294,92 +520,175 @@ const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
           )}
         </div>
 
-        <div className="bg-white rounded-2xl shadow-lg p-6">
-          <h2 className="text-2xl font-bold text-secondary mb-6">
-            {t("dashboard.recentTransactions")}
-          </h2>
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b">
-                  <th className="text-left p-4">{t("transaction.type")}</th>
-                  <th className="text-left p-4">{t("transaction.hash")}</th>
-                  <th className="text-left p-4">{t("transaction.from")}</th>
-                  <th className="text-left p-4">{t("transaction.to")}</th>
-                  <th className="text-left p-4">{t("transaction.date")}</th>
-                  <th className="text-left p-4">{t("transaction.flow")}</th>
-                  <th className="text-left p-4">{t("transaction.fee")}</th>
-                  <th className="text-left p-4">{t("transaction.status")}</th>
-                </tr>
-              </thead>
-              <tbody>
-                {transactions.length === 0 ? (
-                  <tr>
-                    <td colSpan={8} className="text-center py-8 text-gray-500">
-                      {t("dashboard.noTransactions")}
-                    </td>
-                  </tr>
-                ) : (
-                  transactions.map((tx) => (
-                    <tr key={tx.hash} className="border-b hover:bg-gray-50">
-                      <td className="p-4 flex items-center gap-2">
-                        {tx.type}
-                        {tx.isBitbob && (
-                          <span className="bg-primary/10 text-primary text-xs px-2 py-1 rounded-full">
-                            BitBob
-                          </span>
-                        )}
-                      </td>
-                      <td className="p-4">
-                      <Link 
-                      to={`/transaction/${tx.hash}`}
-                      state={{ transaction: tx }}
-                      className="font-mono text-sm text-primary hover:underline"
-                      >
-                      {tx.hash ? tx.hash.substring(0, 8) + "..." : "Unknown"}
-                      </Link>
+        {ammPool ? (
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+              <h2 className="text-2xl font-bold text-secondary flex items-center gap-2">
+                <Waves className="h-6 w-6" />
+                AMM pool
+              </h2>
+              <Link to={path(getAMMAccountPath(ammPool.account))} className="text-sm text-primary hover:underline">
+                Open pool page
+              </Link>
+            </div>
+            <AMMPoolView pool={ammPool} />
+          </div>
+        ) : (
+          <TrustLinesPanel lines={trustLines} />
+        )}
 
-                      </td>
-                      <td className="p-4">
-                        {tx.from && (
-                          <button
-                            onClick={() => handleAddressClick(tx.from)}
-                            className="font-mono text-sm text-primary hover:underline"
-                          >
-                            {tx.from.substring(0, 8)}...
-                          </button>
-                        )}
-                      </td>
-                      <td className="p-4">
-                        {tx.to && (
-                          <button
-                            onClick={() => handleAddressClick(tx.to)}
-                            className="font-mono text-sm text-primary hover:underline"
-                          >
-                            {tx.to.substring(0, 8)}...
-                          </button>
-                        )}
-                      </td>
-                      <td className="p-4">{tx.date || t("dashboard.unknownDate")}</td>
-                      <td className="p-4">{getMoneyFlowIndicator(tx, effectiveAddress)}</td>
-                      <td className="p-4">{tx.fee || "0"}</td>
-                      <td className="p-4">
-                        <span className={`px-2 py-1 rounded-full text-xs ${
-                          tx.status === "tesSUCCESS"
-                            ? "bg-green-100 text-green-800"
-                            : tx.status === "failed"
-                            ? "bg-red-100 text-red-800"
-                            : "bg-gray-100 text-gray-800"
-                        }`}>
-                          {tx.status || t("dashboard.unknownStatus")}
-                        </span>
-                      </td>
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="transactions">{t("dashboard.recentTransactions")}</TabsTrigger>
+              <TabsTrigger value="history">Balance history</TabsTrigger>
+              <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              <TabsTrigger value="offers">Offers</TabsTrigger>
+              <TabsTrigger value="escrows">Escrows</TabsTrigger>
+              <TabsTrigger value="checks">Checks</TabsTrigger>
+              <TabsTrigger value="channels">Channels</TabsTrigger>
+              <TabsTrigger value="nfts">NFTs</TabsTrigger>
+            </TabsList>
+            <TabsContent value="transactions">
+              {latestLedger && (
+                <p className="-mt-4 mb-4 text-xs text-gray-500 flex items-center gap-2">
+                  <Radio className="h-3 w-3 text-green-500" />
+                  Live · last validated ledger{" "}
+                  <Link to={path(`/ledger/${latestLedger.ledgerIndex}`)} className="text-primary hover:underline">
+                    #{latestLedger.ledgerIndex.toLocaleString()}
+                  </Link>
+                </p>
+              )}
+              {destinationTag !== undefined && (
+                <p className="-mt-4 mb-4 text-sm text-gray-600">
+                  Showing payments to this account with destination tag {destinationTag}:{" "}
+                  {visibleTransactions.length} of the {transactions.length} transactions loaded so far
+                  {hasMore && "; scroll down to search older history"}.{" "}
+                  <Link to={path(`/dashboard/${effectiveAddress}`)} className="text-primary hover:underline">
+                    Show all transactions
+                  </Link>
+                </p>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-4">{t("transaction.type")}</th>
+                      <th className="text-left p-4">{t("transaction.hash")}</th>
+                      <th className="text-left p-4">{t("transaction.from")}</th>
+                      <th className="text-left p-4">{t("transaction.to")}</th>
+                      <th className="text-left p-4">{t("transaction.date")}</th>
+                      <th className="text-left p-4">{t("transaction.flow")}</th>
+                      <th className="text-left p-4">{t("transaction.fee")}</th>
+                      <th className="text-left p-4">{t("transaction.status")}</th>
                     </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
+                  </thead>
+                  <tbody>
+                    {visibleTransactions.length === 0 ? (
+                      <tr>
+                        <td colSpan={8} className="text-center py-8 text-gray-500">
+                          {t("dashboard.noTransactions")}
+                        </td>
+                      </tr>
+                    ) : (
+                      visibleTransactions.map((tx) => (
+                        <tr key={tx.hash} className="border-b hover:bg-gray-50">
+                          <td className="p-4 flex items-center gap-2">
+                            {tx.type}
+                            {tx.isBitbob && (
+                              <span className="bg-primary/10 text-primary text-xs px-2 py-1 rounded-full">
+                                BitBob
+                              </span>
+                            )}
+                            {tx.isPartialPayment && (
+                              <span
+                                className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full"
+                                title="tfPartialPayment: the delivered amount may be less than the stated Amount"
+                              >
+                                Partial
+                              </span>
+                            )}
+                          </td>
+                          <td className="p-4">
+                          <Link 
+                          to={path(`/transaction/${tx.hash}`)}
+                          state={{ transaction: tx }}
+                          className="font-mono text-sm text-primary hover:underline"
+                          >
+                          {tx.hash ? tx.hash.substring(0, 8) + "..." : "Unknown"}
+                          </Link>
+
+                          </td>
+                          <td className="p-4">
+                            {tx.from && (
+                              <button
+                                onClick={() => handleAddressClick(tx.from)}
+                                className="font-mono text-sm text-primary hover:underline"
+                              >
+                                {tx.from.substring(0, 8)}...
+                              </button>
+                            )}
+                          </td>
+                          <td className="p-4">
+                            {tx.to && (
+                              <button
+                                onClick={() => handleAddressClick(tx.to)}
+                                className="font-mono text-sm text-primary hover:underline"
+                              >
+                                {tx.to.substring(0, 8)}...
+                              </button>
+                            )}
+                          </td>
+                          <td className="p-4">{tx.date || t("dashboard.unknownDate")}</td>
+                          <td className="p-4">{getMoneyFlowIndicator(tx, effectiveAddress)}</td>
+                          <td className="p-4">{tx.fee || "0"}</td>
+                          <td className="p-4">
+                            <span className={`px-2 py-1 rounded-full text-xs ${
+                              tx.status === "tesSUCCESS"
+                                ? "bg-green-100 text-green-800"
+                                : tx.status === "failed"
+                                ? "bg-red-100 text-red-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}>
+                              {tx.status || t("dashboard.unknownStatus")}
+                            </span>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {hasMore && (
+                <div ref={loadMoreRef} className="flex justify-center pt-6">
+                  <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                    {loadingMore ? t("common.loading") : "Load more"}
+                  </Button>
+                </div>
+              )}
+            </TabsContent>
+            <TabsContent value="history">
+              <BalanceHistoryChart address={effectiveAddress} />
+            </TabsContent>
+            <TabsContent value="analytics">
+              <ActivityAnalytics address={effectiveAddress} />
+            </TabsContent>
+            <TabsContent value="offers">
+              <OffersPanel address={effectiveAddress} transactions={transactions} hasMoreHistory={hasMore} />
+            </TabsContent>
+            <TabsContent value="escrows">
+              <EscrowsPanel address={effectiveAddress} transactions={transactions} />
+            </TabsContent>
+            <TabsContent value="checks">
+              <ChecksPanel address={effectiveAddress} transactions={transactions} />
+            </TabsContent>
+            <TabsContent value="channels">
+              <ChannelsPanel address={effectiveAddress} transactions={transactions} />
+            </TabsContent>
+            <TabsContent value="nfts">
+              <NFTGallery address={effectiveAddress} />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
       <Footer />
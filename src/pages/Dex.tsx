@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  fetchOrderBook,
+  getBookAssetLabel,
+  getOrderBookPath,
+  parseBookAsset,
+  shortenAddress,
+  subscribeToOrderBook,
+  subscribeToStreams,
+  type BookAsset,
+  type DexTrade,
+  type OrderBook,
+  type OrderBookOffer
+} from "../services/xrpl";
+import { Breadcrumb, BreadcrumbItem, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import { Button } from "@/components/ui/button";
+import { Footer } from "@/components/ui/footer";
+import { LanguageSelector } from "@/components/LanguageSelector";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { DepthChart } from "@/components/dex/DepthChart";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useNetwork } from "@/hooks/use-network";
+import { ArrowLeftRight, BookOpen, Radio, Repeat } from "lucide-react";
+
+const VISIBLE_OFFERS = 20;
+const MAX_TRADES = 50;
+
+const formatNumber = (value: number, digits = 6) =>
+  value.toLocaleString("en-US", { maximumSignificantDigits: digits });
+
+const AssetTitle = ({ asset }: { asset: BookAsset }) => {
+  const { path } = useNetwork();
+  return (
+    <span className="inline-flex flex-col">
+      <span>{getBookAssetLabel(asset)}</span>
+      {asset.issuer && (
+        <Link
+          to={path(`/dashboard/${asset.issuer}`)}
+          className="font-mono text-xs font-normal text-primary hover:underline"
+          title={asset.issuer}
+        >
+          {shortenAddress(asset.issuer)}
+        </Link>
+      )}
+    </span>
+  );
+};
+
+interface OfferTableProps {
+  title: string;
+  offers: OrderBookOffer[];
+  baseLabel: string;
+  counterLabel: string;
+  priceClassName: string;
+}
+
+const OfferTable = ({ title, offers, baseLabel, counterLabel, priceClassName }: OfferTableProps) => {
+  const { path } = useNetwork();
+  return (
+    <div className="overflow-x-auto">
+      <h3 className="font-medium text-gray-600 mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-2">Price ({counterLabel})</th>
+            <th className="text-right p-2">Amount ({baseLabel})</th>
+            <th className="text-right p-2">Total ({counterLabel})</th>
+            <th className="text-left p-2">Account</th>
+          </tr>
+        </thead>
+        <tbody>
+          {offers.length === 0 ? (
+            <tr>
+              <td colSpan={4} className="text-center py-8 text-gray-500">No offers</td>
+            </tr>
+          ) : (
+            offers.slice(0, VISIBLE_OFFERS).map((offer) => (
+              <tr key={offer.index} className="border-b hover:bg-gray-50">
+                <td className={`p-2 font-mono ${priceClassName}`}>{formatNumber(offer.price)}</td>
+                <td className="p-2 text-right font-mono">{formatNumber(offer.amount)}</td>
+                <td className="p-2 text-right font-mono">{formatNumber(offer.total)}</td>
+                <td className="p-2">
+                  <Link to={path(`/dashboard/${offer.account}`)} className="font-mono text-primary hover:underline">
+                    {shortenAddress(offer.account, 6)}
+                  </Link>
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const Dex = () => {
+  const params = useParams<{ base: string; counter: string }>();
+  const [book, setBook] = useState<OrderBook | null>(null);
+  const [trades, setTrades] = useState<DexTrade[]>([]);
+  const [latestLedger, setLatestLedger] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { t } = useLanguage();
+  const { networkId, path } = useNetwork();
+
+  const base = useMemo(() => (params.base ? parseBookAsset(params.base) : null), [params.base]);
+  const counter = useMemo(() => (params.counter ? parseBookAsset(params.counter) : null), [params.counter]);
+  const isValidPair = Boolean(
+    base && counter && (base.currency !== counter.currency || base.issuer !== counter.issuer)
+  );
+  // Set by book transactions; the next ledger close refetches the book.
+  const bookChangedRef = useRef(false);
+
+  useEffect(() => {
+    if (!base || !counter || !isValidPair) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setTrades([]);
+    setLatestLedger(null);
+
+    const loadBook = async () => {
+      const result = await fetchOrderBook(base, counter, networkId);
+      if (cancelled) return;
+      setBook(result);
+      setLoading(false);
+    };
+    loadBook();
+
+    const stopBook = subscribeToOrderBook(base, counter, {
+      onChange: () => {
+        bookChangedRef.current = true;
+      },
+      onTrades: (newTrades) => {
+        console.log(`[Dex] ${newTrades.length} trade(s) in ${newTrades[0].hash}`);
+        setTrades((current) => [...newTrades, ...current].slice(0, MAX_TRADES));
+      }
+    }, networkId);
+    const stopLedger = subscribeToStreams(null, {
+      onLedgerClosed: (ledger) => {
+        setLatestLedger(ledger.ledgerIndex);
+        if (!bookChangedRef.current) return;
+        bookChangedRef.current = false;
+        loadBook();
+      }
+    }, networkId);
+
+    return () => {
+      cancelled = true;
+      stopBook();
+      stopLedger();
+    };
+  }, [base, counter, isValidPair, networkId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!base || !counter || !isValidPair) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800">Invalid currency pair</h1>
+          <p className="mt-2 text-gray-600">
+            Use XRP or CODE.rIssuer for each side, e.g. /dex/XRP/USD.rvYAfWj5gh67oV6fW32ZzP3Aw4Eubs59B
+          </p>
+          <Link
+            to={path("/")}
+            className="mt-4 inline-block px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+          >
+            {t("common.returnHome")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const baseLabel = getBookAssetLabel(base);
+  const counterLabel = getBookAssetLabel(counter);
+  const bestBid = book?.bids[0]?.price;
+  const bestAsk = book?.asks[0]?.price;
+  const spread = bestBid !== undefined && bestAsk !== undefined
+    ? { value: bestAsk - bestBid, percent: ((bestAsk - bestBid) / ((bestAsk + bestBid) / 2)) * 100 }
+    : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 to-secondary/5 p-4 sm:p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <Link to={path("/")} className="text-primary hover:text-primary/90">
+                  {t("nav.home")}
+                </Link>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <span>DEX</span>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <span>{baseLabel}/{counterLabel}</span>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+          <div className="flex items-center gap-2">
+            <NetworkSelector />
+            <LanguageSelector />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+            <h1 className="text-2xl font-bold text-secondary flex items-start gap-3">
+              <BookOpen className="h-6 w-6 mt-1" />
+              <AssetTitle asset={base} />
+              <span>/</span>
+              <AssetTitle asset={counter} />
+            </h1>
+            <Button variant="outline" size="sm" asChild>
+              <Link to={path(getOrderBookPath(counter, base))}>
+                <ArrowLeftRight className="h-4 w-4 mr-2" />
+                Invert pair
+              </Link>
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <h3 className="font-medium text-gray-600 mb-1">Best bid</h3>
+              <p className="font-mono text-lg text-green-700">{bestBid !== undefined ? formatNumber(bestBid) : "—"}</p>
+            </div>
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <h3 className="font-medium text-gray-600 mb-1">Best ask</h3>
+              <p className="font-mono text-lg text-red-700">{bestAsk !== undefined ? formatNumber(bestAsk) : "—"}</p>
+            </div>
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <h3 className="font-medium text-gray-600 mb-1">Spread</h3>
+              <p className="font-mono text-lg">
+                {spread ? formatNumber(spread.value) : "—"}
+                {spread && <span className="ml-2 text-sm text-gray-500">({spread.percent.toFixed(2)}%)</span>}
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 flex items-center gap-2">
+            <Radio className="h-3 w-3 text-green-500" />
+            Prices in {counterLabel} per {baseLabel}
+            {latestLedger && (
+              <>
+                {" "}· live as of ledger{" "}
+                <Link to={path(`/ledger/${latestLedger}`)} className="text-primary hover:underline">
+                  #{latestLedger.toLocaleString()}
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+
+        {book && (
+          <>
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+              <h2 className="text-2xl font-bold text-secondary mb-6">Depth</h2>
+              <DepthChart book={book} baseLabel={baseLabel} counterLabel={counterLabel} />
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+              <h2 className="text-2xl font-bold text-secondary mb-6">Order book</h2>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <OfferTable
+                  title={`Bids (buying ${baseLabel})`}
+                  offers={book.bids}
+                  baseLabel={baseLabel}
+                  counterLabel={counterLabel}
+                  priceClassName="text-green-700"
+                />
+                <OfferTable
+                  title={`Asks (selling ${baseLabel})`}
+                  offers={book.asks}
+                  baseLabel={baseLabel}
+                  counterLabel={counterLabel}
+                  priceClassName="text-red-700"
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-2xl font-bold text-secondary mb-6 flex items-center gap-2">
+            <Repeat className="h-6 w-6" />
+            Recent trades
+          </h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Side</th>
+                  <th className="text-left p-2">Price ({counterLabel})</th>
+                  <th className="text-right p-2">Amount ({baseLabel})</th>
+                  <th className="text-right p-2">Total ({counterLabel})</th>
+                  <th className="text-left p-2">Taker</th>
+                  <th className="text-left p-2">{t("transaction.hash")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trades.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center py-8 text-gray-500">
+                      Waiting for trades. Fills on this pair show up here as ledgers validate.
+                    </td>
+                  </tr>
+                ) : (
+                  trades.map((trade) => (
+                    <tr key={trade.id} className="border-b hover:bg-gray-50">
+                      <td className="p-2">
+                        <span className={`px-2 py-1 rounded-full text-xs ${
+                          trade.side === "buy" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                        }`}>
+                          {trade.side === "buy" ? "Buy" : "Sell"}
+                        </span>
+                      </td>
+                      <td className="p-2 font-mono">{formatNumber(trade.price)}</td>
+                      <td className="p-2 text-right font-mono">{formatNumber(trade.amount)}</td>
+                      <td className="p-2 text-right font-mono">{formatNumber(trade.total)}</td>
+                      <td className="p-2">
+                        <Link to={path(`/dashboard/${trade.taker}`)} className="font-mono text-primary hover:underline">
+                          {shortenAddress(trade.taker, 6)}
+                        </Link>
+                      </td>
+                      <td className="p-2">
+                        <Link to={path(`/transaction/${trade.hash}`)} className="font-mono text-primary hover:underline">
+                          {shortenAddress(trade.hash, 6)}
+                        </Link>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default Dex;
@@ -1,14 +1,13 @@
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { validateXRPLAddress } from "../services/xrpl";
-import { toast } from "sonner";
-import { Input } from "@/components/ui/input";
-import { Button } from "@/components/ui/button";
 import { Footer } from "@/components/ui/footer";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { SearchBar } from "@/components/SearchBar";
+import { useNetwork } from "@/hooks/use-network";
 const Index = () => {
-  const [address, setAddress] = useState("");
   const navigate = useNavigate();
   const location = useLocation();
+  const { network } = useNetwork();
 
   // Automatically redirect to dashboard if URL is accessed directly
   useEffect(() => {
@@ -17,22 +16,11 @@ const Index = () => {
     }
   }, [location.pathname, navigate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!address) {
-      toast.error("Please enter an XRPL address");
-      return;
-    }
-    
-    if (validateXRPLAddress(address)) {
-      navigate(`/dashboard/${address}`);
-    } else {
-      toast.error("Please enter a valid XRPL address");
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/20 to-secondary/20 flex flex-col items-center justify-center p-4">
+      <div className="absolute top-4 right-4">
+        <NetworkSelector />
+      </div>
       <div className="animate-float mb-8">
         <img 
           src="/bb_blue.png" 
@@ -45,26 +33,22 @@ const Index = () => {
         <h1 className="text-3xl font-bold text-secondary mb-6 text-center">
           XRPL Transaction Viewer
         </h1>
+        {network.id !== "mainnet" && (
+          <p className="-mt-4 mb-6 text-center text-sm font-medium text-secondary">
+            {network.explorerLabel}
+          </p>
+        )}
         
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="address" className="block text-sm font-medium text-secondary mb-2">
-              XRPL Address
-            </label>
-            <Input
-              id="address"
-              type="text"
-              value={address}
-              onChange={(e) => setAddress(e.target.value)}
-              className="font-mono"
-              placeholder="Enter your XRPL address"
-            />
-          </div>
-          
-          <Button type="submit" className="w-full">
-            View Transactions
-          </Button>
-        </form>
+        <div>
+          <p className="block text-sm font-medium text-secondary mb-2">
+            Address, transaction, ledger, NFT or domain
+          </p>
+          <SearchBar
+            stacked
+            buttonLabel="Search"
+            placeholder="Enter an XRPL address, hash or domain"
+          />
+        </div>
 
         <div className="mt-4 text-sm text-center text-gray-600">
           Example: rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32
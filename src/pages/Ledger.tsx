@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  fetchLedger,
+  fetchValidatedLedgerIndex,
+  shortenAddress,
+  type LedgerDetail
+} from "../services/xrpl";
+import { Breadcrumb, BreadcrumbItem, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import { Button } from "@/components/ui/button";
+import { Footer } from "@/components/ui/footer";
+import { LanguageSelector } from "@/components/LanguageSelector";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useNetwork } from "@/hooks/use-network";
+import { Boxes, ChevronLeft, ChevronRight, Clock, Coins, Hash, Layers, ListOrdered } from "lucide-react";
+
+const Ledger = () => {
+  const { index } = useParams<{ index: string }>();
+  const [ledger, setLedger] = useState<LedgerDetail | null>(null);
+  const [latestIndex, setLatestIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { t } = useLanguage();
+  const { networkId, path } = useNetwork();
+
+  useEffect(() => {
+    if (!index) return;
+    let cancelled = false;
+
+    const loadLedger = async () => {
+      setLoading(true);
+      const [detail, latest] = await Promise.all([
+        fetchLedger(index, networkId),
+        fetchValidatedLedgerIndex(networkId).catch(() => null)
+      ]);
+      if (cancelled) return;
+      setLedger(detail);
+      setLatestIndex(latest);
+      setLoading(false);
+    };
+
+    loadLedger();
+    return () => {
+      cancelled = true;
+    };
+  }, [index, networkId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!ledger) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800">Ledger not found</h1>
+          <p className="mt-2 text-gray-600">
+            The ledger you're looking for doesn't exist on this network or the server no longer has it.
+          </p>
+          <Link
+            to={path("/")}
+            className="mt-4 inline-block px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+          >
+            {t("common.returnHome")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const hasNext = latestIndex === null || ledger.index < latestIndex;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 to-secondary/5 p-4 sm:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <Link to={path("/")} className="text-primary hover:text-primary/90">
+                  {t("nav.home")}
+                </Link>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <span>Ledger #{ledger.index.toLocaleString()}</span>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+          <div className="flex items-center gap-2">
+            <NetworkSelector />
+            <LanguageSelector />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h1 className="text-2xl font-bold text-secondary flex items-center gap-2">
+              <Layers className="h-6 w-6" />
+              Ledger #{ledger.index.toLocaleString()}
+              <span className={`px-2 py-1 rounded-full text-xs ${
+                ledger.validated ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"
+              }`}>
+                {ledger.validated ? "validated" : "not validated"}
+              </span>
+            </h1>
+            <div className="flex gap-2">
+              {ledger.index > 1 && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={path(`/ledger/${ledger.index - 1}`)}>
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Link>
+                </Button>
+              )}
+              {hasNext && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={path(`/ledger/${ledger.index + 1}`)}>
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Link>
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                <Hash className="h-4 w-4" />
+                Ledger hash
+              </h3>
+              <p className="font-mono text-sm break-all">{ledger.hash}</p>
+            </div>
+
+            <div className="p-4 bg-primary/5 rounded-lg">
+              <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                <Hash className="h-4 w-4" />
+                Parent hash
+              </h3>
+              <Link
+                to={path(`/ledger/${ledger.parentHash}`)}
+                className="font-mono text-sm text-primary hover:underline break-all"
+              >
+                {ledger.parentHash}
+              </Link>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="p-4 bg-primary/5 rounded-lg">
+                <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  Close time
+                </h3>
+                <p>{ledger.closeTime}</p>
+                {ledger.closeTimeResolution !== undefined && (
+                  <p className="text-xs text-gray-500">±{ledger.closeTimeResolution}s resolution</p>
+                )}
+              </div>
+
+              <div className="p-4 bg-primary/5 rounded-lg">
+                <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                  <Coins className="h-4 w-4" />
+                  Total coins
+                </h3>
+                <p className="break-all">{ledger.totalCoins}</p>
+              </div>
+
+              <div className="p-4 bg-primary/5 rounded-lg">
+                <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                  <ListOrdered className="h-4 w-4" />
+                  Transactions
+                </h3>
+                <p className="font-bold">{ledger.transactionCount}</p>
+              </div>
+            </div>
+
+            {ledger.typeBreakdown.length > 0 && (
+              <div className="p-4 bg-primary/5 rounded-lg">
+                <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                  <Boxes className="h-4 w-4" />
+                  Transaction types
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {ledger.typeBreakdown.map(({ type, count }) => (
+                    <span key={type} className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-800">
+                      {type} <span className="font-bold">{count}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-2xl font-bold text-secondary mb-6">Transactions</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-4">#</th>
+                  <th className="text-left p-4">{t("transaction.type")}</th>
+                  <th className="text-left p-4">{t("transaction.hash")}</th>
+                  <th className="text-left p-4">{t("transaction.from")}</th>
+                  <th className="text-left p-4">{t("transaction.to")}</th>
+                  <th className="text-left p-4">{t("transaction.fee")}</th>
+                  <th className="text-left p-4">{t("transaction.status")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.transactions.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="text-center py-8 text-gray-500">
+                      This ledger contains no transactions
+                    </td>
+                  </tr>
+                ) : (
+                  ledger.transactions.map((tx) => (
+                    <tr key={tx.hash} className="border-b hover:bg-gray-50">
+                      <td className="p-4 text-gray-500">{tx.transactionIndex ?? ""}</td>
+                      <td className="p-4">{tx.type}</td>
+                      <td className="p-4">
+                        <Link to={path(`/transaction/${tx.hash}`)} className="font-mono text-primary hover:underline">
+                          {shortenAddress(tx.hash)}
+                        </Link>
+                      </td>
+                      <td className="p-4">
+                        <Link
+                          to={path(`/dashboard/${tx.account}`)}
+                          className="font-mono text-primary hover:underline"
+                          title={tx.account}
+                        >
+                          {shortenAddress(tx.account)}
+                        </Link>
+                      </td>
+                      <td className="p-4">
+                        {tx.destination && (
+                          <Link
+                            to={path(`/dashboard/${tx.destination}`)}
+                            className="font-mono text-primary hover:underline"
+                            title={tx.destination}
+                          >
+                            {shortenAddress(tx.destination)}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="p-4">{tx.fee}</td>
+                      <td className="p-4">
+                        <span className={`px-2 py-1 rounded-full text-xs ${
+                          tx.result === "tesSUCCESS" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                        }`}>
+                          {tx.result}
+                        </span>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default Ledger;
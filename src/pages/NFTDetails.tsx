@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  decodeNFTokenFlags,
+  fetchNFTHistory,
+  fetchNFTInfo,
+  fetchNFTOffers,
+  formatXRPLDate,
+  resolveNFTUri,
+  shortenAddress,
+  type NFTHistory,
+  type NFToken,
+  type NFTOffer
+} from "../services/xrpl";
+import { toast } from "sonner";
+import { Breadcrumb, BreadcrumbItem, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import { Footer } from "@/components/ui/footer";
+import { LanguageSelector } from "@/components/LanguageSelector";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { AmountDisplay } from "@/components/AmountDisplay";
+import { FlagList } from "@/components/FlagList";
+import { NFTMedia } from "@/components/nft/NFTMedia";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useNetwork } from "@/hooks/use-network";
+import { useNFTMetadata } from "@/hooks/use-nft-metadata";
+import { Flag, History, Image as ImageIcon, Tag } from "lucide-react";
+
+const NFT_ID_PATTERN = /^[0-9A-F]{64}$/i;
+
+const AccountLink = ({ address }: { address: string }) => {
+  const { path } = useNetwork();
+  return (
+    <Link to={path(`/dashboard/${address}`)} className="font-mono text-sm text-primary hover:underline break-all">
+      {address}
+    </Link>
+  );
+};
+
+const NFTDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const [nft, setNft] = useState<NFToken | null>(null);
+  const [offers, setOffers] = useState<NFTOffer[]>([]);
+  const [history, setHistory] = useState<NFTHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useLanguage();
+  const { networkId, path } = useNetwork();
+  const { metadata, loading: metadataLoading } = useNFTMetadata(nft?.uri);
+
+  useEffect(() => {
+    if (!id || !NFT_ID_PATTERN.test(id)) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    const loadNFT = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [info, nftOffers, nftHistory] = await Promise.all([
+          fetchNFTInfo(id, networkId),
+          fetchNFTOffers(id, networkId).catch(() => []),
+          fetchNFTHistory(id, networkId)
+        ]);
+        if (cancelled) return;
+        setNft(info);
+        setOffers(nftOffers);
+        setHistory(nftHistory);
+      } catch (loadError) {
+        console.error("[XRPL] Error loading NFT:", loadError);
+        if (cancelled) return;
+        setNft(null);
+        setError("Failed to load NFT details");
+        toast.error("Failed to load NFT details");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadNFT();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, networkId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!nft) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800">{error ?? "Invalid NFToken ID"}</h1>
+          <p className="mt-2 text-gray-600">
+            {error ? "The network could not be reached; try again or pick another endpoint." : "An NFToken ID is 64 hexadecimal characters."}
+          </p>
+          <Link
+            to={path("/")}
+            className="mt-4 inline-block px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+          >
+            {t("common.returnHome")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const uriLink = nft.uri ? resolveNFTUri(nft.uri) : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 to-secondary/5 p-4 sm:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <Link to={path("/")} className="text-primary hover:text-primary/90">
+                  {t("nav.home")}
+                </Link>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <span>NFT</span>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+          <div className="flex items-center gap-2">
+            <NetworkSelector />
+            <LanguageSelector />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-[18rem_1fr] gap-6">
+            <NFTMedia metadata={metadata} loading={metadataLoading} className="w-full aspect-square rounded-lg" />
+
+            <div className="space-y-4">
+              <h1 className="text-2xl font-bold text-secondary flex items-center gap-2">
+                <ImageIcon className="h-6 w-6" />
+                {metadata?.name ?? `NFT #${nft.serial}`}
+                {nft.isBurned && (
+                  <span className="px-2 py-1 rounded-full text-xs bg-red-100 text-red-800">burned</span>
+                )}
+              </h1>
+              {metadata?.description && <p className="text-gray-600">{metadata.description}</p>}
+
+              <dl className="grid grid-cols-1 sm:grid-cols-[8rem_1fr] gap-x-4 gap-y-2 text-sm">
+                <dt className="text-gray-500">NFToken ID</dt>
+                <dd className="font-mono break-all">{nft.id}</dd>
+                <dt className="text-gray-500">Issuer</dt>
+                <dd><AccountLink address={nft.issuer} /></dd>
+                <dt className="text-gray-500">Owner</dt>
+                <dd>
+                  {nft.owner ? <AccountLink address={nft.owner} /> : <span className="text-gray-500">Needs a Clio server</span>}
+                </dd>
+                <dt className="text-gray-500">Taxon</dt>
+                <dd>{nft.taxon}</dd>
+                <dt className="text-gray-500">Serial</dt>
+                <dd>{nft.serial}</dd>
+                <dt className="text-gray-500">Transfer fee</dt>
+                <dd>{(nft.transferFee / 1000).toFixed(3).replace(/\.?0+$/, "")}%</dd>
+                {nft.uri && (
+                  <>
+                    <dt className="text-gray-500">URI</dt>
+                    <dd className="break-all">
+                      {uriLink ? (
+                        <a href={uriLink} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                          {nft.uri}
+                        </a>
+                      ) : (
+                        // Not http(s) after resolving, e.g. javascript: or data:; shown but never linked.
+                        <span className="font-mono text-sm">{nft.uri}</span>
+                      )}
+                    </dd>
+                  </>
+                )}
+              </dl>
+            </div>
+          </div>
+
+          <div className="mt-6 space-y-6">
+            <FlagList
+              flags={decodeNFTokenFlags(nft.flags)}
+              icon={<Flag className="h-4 w-4" />}
+              title="Flags"
+              emptyText="No flags set"
+            />
+
+            {metadata?.attributes && metadata.attributes.length > 0 && (
+              <div className="p-4 bg-primary/5 rounded-lg">
+                <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                  <Tag className="h-4 w-4" />
+                  Attributes
+                </h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {metadata.attributes.map((attribute, index) => (
+                    <div key={index} className="rounded-lg bg-white p-2 text-sm">
+                      <p className="text-xs text-gray-500">{attribute.trait_type ?? "Trait"}</p>
+                      <p className="font-medium break-words">{String(attribute.value ?? "")}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+          <h2 className="text-2xl font-bold text-secondary mb-6">Offers</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-4">Side</th>
+                  <th className="text-left p-4">{t("transaction.amount")}</th>
+                  <th className="text-left p-4">Owner</th>
+                  <th className="text-left p-4">Destination</th>
+                  <th className="text-left p-4">Expires</th>
+                </tr>
+              </thead>
+              <tbody>
+                {offers.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="text-center py-8 text-gray-500">No open offers</td>
+                  </tr>
+                ) : (
+                  offers.map((offer) => (
+                    <tr key={offer.index} className="border-b hover:bg-gray-50">
+                      <td className="p-4">
+                        <span className={`px-2 py-1 rounded-full text-xs ${
+                          offer.isSellOffer ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"
+                        }`}>
+                          {offer.isSellOffer ? "Sell" : "Buy"}
+                        </span>
+                      </td>
+                      <td className="p-4"><AmountDisplay amount={offer.amount} /></td>
+                      <td className="p-4">
+                        <Link to={path(`/dashboard/${offer.owner}`)} className="font-mono text-primary hover:underline">
+                          {shortenAddress(offer.owner)}
+                        </Link>
+                      </td>
+                      <td className="p-4">
+                        {offer.destination && (
+                          <Link to={path(`/dashboard/${offer.destination}`)} className="font-mono text-primary hover:underline">
+                            {shortenAddress(offer.destination)}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="p-4">{offer.expiration ? formatXRPLDate(offer.expiration) : "Never"}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-2xl font-bold text-secondary mb-6 flex items-center gap-2">
+            <History className="h-6 w-6" />
+            Transfer history
+          </h2>
+          {history === null ? (
+            <p className="text-gray-500">
+              History needs a server with nft_history (Clio). Try another network endpoint.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-4">{t("transaction.type")}</th>
+                    <th className="text-left p-4">{t("transaction.hash")}</th>
+                    <th className="text-left p-4">Account</th>
+                    <th className="text-left p-4">{t("transaction.date")}</th>
+                    <th className="text-left p-4">{t("transaction.status")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="text-center py-8 text-gray-500">No history found</td>
+                    </tr>
+                  ) : (
+                    history.entries.map((entry) => (
+                      <tr key={entry.hash} className="border-b hover:bg-gray-50">
+                        <td className="p-4">{entry.type}</td>
+                        <td className="p-4">
+                          <Link to={path(`/transaction/${entry.hash}`)} className="font-mono text-primary hover:underline">
+                            {shortenAddress(entry.hash)}
+                          </Link>
+                        </td>
+                        <td className="p-4">
+                          <Link to={path(`/dashboard/${entry.account}`)} className="font-mono text-primary hover:underline">
+                            {shortenAddress(entry.account)}
+                          </Link>
+                        </td>
+                        <td className="p-4">{entry.date}</td>
+                        <td className="p-4">
+                          <span className={`px-2 py-1 rounded-full text-xs ${
+                            entry.result === "tesSUCCESS" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                          }`}>
+                            {entry.result}
+                          </span>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+              {history.hasMore && (
+                <p className="mt-4 text-sm text-gray-500">
+                  Showing the {history.entries.length.toLocaleString()} most recent entries; older transfers are not listed.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default NFTDetails;
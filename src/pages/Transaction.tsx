@@ -1,13 +1,29 @@
 // SourceTag: 29202152
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams, useLocation, Link, useNavigate } from "react-router-dom";
-import { fetchTransactionDetails, type TransactionDetail } from "../services/xrpl";
+import {
+  decodeTransactionFlags,
+  fetchTransactionDetails,
+  getPriceQuantity,
+  isPartialPayment,
+  networkCacheKey,
+  type TransactionDetail
+} from "../services/xrpl";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { toast } from "sonner";
 import { Footer } from "@/components/ui/footer";
 import { LanguageSelector } from "@/components/LanguageSelector";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { PriceSourceSelector } from "@/components/PriceSourceSelector";
+import { FiatValue } from "@/components/FiatValue";
+import { AmountDisplay } from "@/components/AmountDisplay";
+import { BalanceChangesSection } from "@/components/BalanceChanges";
+import { TransactionTypeDetails } from "@/components/transaction/TransactionTypeDetails";
+import { TransactionTracker } from "@/components/transaction/TransactionTracker";
+import { FlagList, PartialPaymentWarning } from "@/components/FlagList";
+import { useNetwork } from "@/hooks/use-network";
 import {
   ArrowLeftRight,
   Clock,
@@ -18,6 +34,8 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
+  Flag,
+  Layers,
 } from "lucide-react";
 
 const Transaction = () => {
@@ -26,11 +44,15 @@ const Transaction = () => {
   const [transaction, setTransaction] = useState<TransactionDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set when the hash is not (yet) in a validated ledger; the tracker takes over.
+  const [tracking, setTracking] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const { t } = useLanguage();
+  const { networkId, path } = useNetwork();
   const navigate = useNavigate();
 
   // Merge fetched details with any extra details passed via navigation state
-  const mergeTransaction = (fetched: TransactionDetail): TransactionDetail => {
+  const mergeTransaction = useCallback((fetched: TransactionDetail): TransactionDetail => {
     // Prefer the transaction passed in navigation state
     const stateTx = (location.state as { transaction?: TransactionDetail })?.transaction;
     return {
@@ -39,7 +61,7 @@ const Transaction = () => {
       to: stateTx?.to ?? fetched.to ?? "Unknown",
       type: stateTx?.type ?? fetched.type ?? "Unknown",
     };
-  };
+  }, [location.state]);
   
   const demoAddress = "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
   
@@ -47,6 +69,13 @@ const Transaction = () => {
   
 
   useEffect(() => {
+    let cancelled = false;
+    // Start from a clean page so a previous hash's result or error never lingers.
+    setTransaction(null);
+    setError(null);
+    setTracking(false);
+    setLoading(true);
+
     const loadTransaction = async () => {
       if (!hash) {
         setError("No transaction hash provided");
@@ -55,7 +84,7 @@ const Transaction = () => {
       }
 
       // Try sessionStorage cache first
-      const cached = sessionStorage.getItem(`tx_${hash}`);
+      const cached = sessionStorage.getItem(networkCacheKey(networkId, `tx_${hash}`));
       if (cached) {
         const txData = JSON.parse(cached);
         setTransaction(mergeTransaction(txData));
@@ -65,30 +94,34 @@ const Transaction = () => {
 
       try {
         console.log("Loading transaction details for hash:", hash);
-        const tx = await fetchTransactionDetails(hash);
+        const tx = await fetchTransactionDetails(hash, networkId);
+        if (cancelled) return;
         if (!tx) {
-          setError("Transaction not found");
-          toast.error("Transaction not found");
+          setTracking(true);
         } else {
           setTransaction(mergeTransaction(tx));
           console.log("Transaction loaded successfully:", tx);
         }
       } catch (error) {
         console.error("Error loading transaction:", error);
+        if (cancelled) return;
         setError("Failed to load transaction details");
         toast.error("Failed to load transaction details");
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     loadTransaction();
-  }, [hash, location.state]);
+    return () => {
+      cancelled = true;
+    };
+  }, [hash, mergeTransaction, networkId, reloadKey]);
 
 
   const getDashboardAddress = () => {
     if (transaction && transaction.from && transaction.from !== "Unknown") return transaction.from;
-    const last = sessionStorage.getItem("last_accessed_address");
+    const last = sessionStorage.getItem(networkCacheKey(networkId, "last_accessed_address"));
     return (last && last !== "Unknown") ? last : demoAddress;
   };
 
@@ -99,10 +132,10 @@ const Transaction = () => {
       return;
     }
     if (transaction) {
-      sessionStorage.setItem(`tx_${transaction.hash}`, JSON.stringify(transaction));
-      sessionStorage.setItem("last_accessed_address", dashboardAddress);
+      sessionStorage.setItem(networkCacheKey(networkId, `tx_${transaction.hash}`), JSON.stringify(transaction));
+      sessionStorage.setItem(networkCacheKey(networkId, "last_accessed_address"), dashboardAddress);
     }
-    navigate(`/dashboard/${dashboardAddress}`);
+    navigate(path(`/dashboard/${dashboardAddress}`));
   };
 
   const getStatusIcon = (status: string) => {
@@ -119,6 +152,27 @@ const Transaction = () => {
     );
   }
 
+  if (tracking && !transaction && hash) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary/5 to-secondary/5 p-4 sm:p-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex justify-between items-center mb-6">
+            <Link to={path("/")} className="text-primary hover:text-primary/90">
+              {t("nav.home")}
+            </Link>
+            <div className="flex items-center gap-2">
+              <NetworkSelector />
+              <PriceSourceSelector />
+              <LanguageSelector />
+            </div>
+          </div>
+          <TransactionTracker hash={hash} network={networkId} onValidated={() => setReloadKey((key) => key + 1)} />
+          <Footer />
+        </div>
+      </div>
+    );
+  }
+
   if (error || !transaction) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -130,7 +184,7 @@ const Transaction = () => {
             The transaction you're looking for doesn't exist or couldn't be loaded.
           </p>
           <Link
-            to="/"
+            to={path("/")}
             className="mt-4 inline-block px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
           >
             {t("common.returnHome")}
@@ -147,6 +201,9 @@ const Transaction = () => {
   // Use merged transaction details
   const { from, to, type } = transaction;
   const fee = transaction.fee === "0.000000 XRP" ? "0.000012 XRP" : transaction.fee;
+  const flags = decodeTransactionFlags(type, transaction.flags);
+  const partialPayment = isPartialPayment(type, transaction.flags);
+  const fiat = transaction.parsedAmount ? getPriceQuantity(transaction.parsedAmount) : undefined;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 to-secondary/5 p-4 sm:p-8">
@@ -155,7 +212,7 @@ const Transaction = () => {
           <Breadcrumb>
             <BreadcrumbList>
               <BreadcrumbItem>
-                <Link to="/" className="text-primary hover:text-primary/90">
+                <Link to={path("/")} className="text-primary hover:text-primary/90">
                   {t("nav.home")}
                 </Link>
               </BreadcrumbItem>
@@ -171,7 +228,11 @@ const Transaction = () => {
               </BreadcrumbItem>
             </BreadcrumbList>
           </Breadcrumb>
-          <LanguageSelector />
+          <div className="flex items-center gap-2">
+            <NetworkSelector />
+            <PriceSourceSelector />
+            <LanguageSelector />
+          </div>
         </div>
 
         <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -181,6 +242,8 @@ const Transaction = () => {
           </h1>
 
           <div className="space-y-6">
+            {partialPayment && <PartialPaymentWarning />}
+
             <div className="p-4 bg-primary/5 rounded-lg">
               <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
                 <Hash className="h-4 w-4" />
@@ -196,25 +259,27 @@ const Transaction = () => {
                   {t("transaction.from")}
                 </h3>
                 <Link
-                  to={`/dashboard/${from}`}
+                  to={path(`/dashboard/${from}`)}
                   className="font-mono text-sm text-primary hover:underline break-all"
                 >
                   {from}
                 </Link>
               </div>
 
-              <div className="p-4 bg-primary/5 rounded-lg">
-                <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
-                  <ArrowRight className="h-4 w-4" />
-                  {t("transaction.to")}
-                </h3>
-                <Link
-                  to={`/dashboard/${to}`}
-                  className="font-mono text-sm text-primary hover:underline break-all"
-                >
-                  {to}
-                </Link>
-              </div>
+              {to && (
+                <div className="p-4 bg-primary/5 rounded-lg">
+                  <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
+                    <ArrowRight className="h-4 w-4" />
+                    {t("transaction.to")}
+                  </h3>
+                  <Link
+                    to={path(`/dashboard/${to}`)}
+                    className="font-mono text-sm text-primary hover:underline break-all"
+                  >
+                    {to}
+                  </Link>
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -223,7 +288,29 @@ const Transaction = () => {
                   <ArrowLeftRight className="h-4 w-4" />
                   {t("transaction.amount")}
                 </h3>
-                <p className="font-bold">{transaction.amount}</p>
+                <AmountDisplay
+                  amount={transaction.parsedAmount}
+                  fallback={transaction.amount}
+                  fullIssuer
+                  className="font-bold block"
+                />
+                {fiat && (
+                  <>
+                    <FiatValue
+                      asset={fiat.asset}
+                      quantity={fiat.quantity}
+                      date={transaction.closeTime}
+                      label="at the time"
+                      className="block text-sm text-gray-600"
+                    />
+                    <FiatValue
+                      asset={fiat.asset}
+                      quantity={fiat.quantity}
+                      label="now"
+                      className="block text-xs text-gray-500"
+                    />
+                  </>
+                )}
               </div>
 
               <div className="p-4 bg-primary/5 rounded-lg">
@@ -249,6 +336,20 @@ const Transaction = () => {
               </div>
             </div>
 
+            {transaction.raw && (
+              <TransactionTypeDetails
+                type={type}
+                txJson={transaction.raw.tx_json ?? transaction.raw}
+                meta={transaction.raw.meta}
+              />
+            )}
+
+            <FlagList flags={flags} icon={<Flag className="h-4 w-4" />} title="Flags" />
+
+            {transaction.balanceChanges && (
+              <BalanceChangesSection changes={transaction.balanceChanges} />
+            )}
+
             {transaction.memo && (
               <div className="p-4 bg-primary/5 rounded-lg">
                 <h3 className="font-medium text-gray-600 mb-2 flex items-center gap-2">
@@ -281,6 +382,15 @@ const Transaction = () => {
                   {t("transaction.date")}
                 </h3>
                 <p>{transaction.date}</p>
+                {transaction.ledgerIndex !== undefined && (
+                  <Link
+                    to={path(`/ledger/${transaction.ledgerIndex}`)}
+                    className="text-sm text-primary hover:underline inline-flex items-center gap-1"
+                  >
+                    <Layers className="h-3 w-3" />
+                    Ledger #{transaction.ledgerIndex.toLocaleString()}
+                  </Link>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,78 @@
+import { toast } from "sonner";
+import type { AMMInfoRequest, Currency } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { requireAmount } from "./amount";
+import { formatBookAsset } from "./dex";
+import type { AMMPool, BookAsset, IssuedAmount, NetworkId } from "./types";
+
+const LSF_AMM = 0x02000000;
+
+export type AMMPoolQuery = { account: string } | { asset: BookAsset; asset2: BookAsset };
+
+// The pseudo-account behind a pool carries both lsfAMM and an AMMID field.
+export const isAMMAccount = (flags?: number, ammId?: string): boolean =>
+  Boolean(ammId) || ((flags ?? 0) & LSF_AMM) !== 0;
+
+export const getAMMAccountPath = (account: string): string => `/amm/${account}`;
+
+export const getAMMPoolPath = (asset: BookAsset, asset2: BookAsset): string =>
+  `/amm/${formatBookAsset(asset)}/${formatBookAsset(asset2)}`;
+
+const toCurrency = (asset: BookAsset): Currency =>
+  asset.issuer ? { currency: asset.currency, issuer: asset.issuer } : { currency: "XRP" };
+
+/**
+ * Looks up a pool with amm_info, either by its AMM account or by its asset
+ * pair. Returns null when there is no such pool.
+ */
+export const fetchAMMInfo = async (
+  query: AMMPoolQuery,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<AMMPool | null> => {
+  try {
+    const client = await getClient(network);
+    console.log(`[XRPL] Fetching ${network} AMM pool:`, query);
+
+    const request: AMMInfoRequest = {
+      command: "amm_info",
+      ledger_index: "validated",
+      ...("account" in query
+        ? { amm_account: query.account }
+        : { asset: toCurrency(query.asset), asset2: toCurrency(query.asset2) })
+    };
+    const response = await client.request(request);
+
+    const { amm } = response.result;
+    const slot = amm.auction_slot;
+    return {
+      account: amm.account,
+      amount: requireAmount(amm.amount),
+      amount2: requireAmount(amm.amount2),
+      lpToken: requireAmount(amm.lp_token) as IssuedAmount,
+      tradingFee: amm.trading_fee,
+      assetFrozen: Boolean(amm.asset_frozen),
+      asset2Frozen: Boolean(amm.asset2_frozen),
+      voteSlots: (amm.vote_slots ?? []).map((vote) => ({
+        account: vote.account,
+        tradingFee: vote.trading_fee,
+        voteWeight: vote.vote_weight
+      })),
+      auctionSlot: slot && {
+        account: slot.account,
+        authAccounts: (slot.auth_accounts ?? []).map(({ account }) => account),
+        discountedFee: slot.discounted_fee,
+        expiration: slot.expiration,
+        price: requireAmount(slot.price),
+        timeInterval: slot.time_interval
+      }
+    };
+  } catch (error) {
+    if ((error as { data?: { error?: string } })?.data?.error === "actNotFound") {
+      return null;
+    }
+    console.error("[XRPL] Error fetching AMM pool:", error);
+    toast.error("Failed to fetch AMM pool");
+    return null;
+  }
+};
@@ -0,0 +1,117 @@
+import { addDecimals } from './decimal';
+import type { Amount, IssuedAmount, XRPAmount } from './types';
+
+const DROPS_PER_XRP = 1_000_000;
+const LP_TOKEN_PREFIX = '03';
+
+type RawAmount = string | number | { currency?: string; issuer?: string; value?: string } | null | undefined;
+
+/**
+ * Turns a 3-character or 160-bit hex currency code into something readable.
+ * Standard codes embed ISO letters in bytes 12-14; non-standard codes are
+ * usually zero-padded ASCII (e.g. RLUSD); AMM LP tokens start with 0x03.
+ */
+export const decodeCurrencyCode = (code: string): string => {
+  if (!code || code.length !== 40 || !/^[0-9A-Fa-f]+$/.test(code)) {
+    return code;
+  }
+
+  const upper = code.toUpperCase();
+  if (upper.startsWith(LP_TOKEN_PREFIX)) {
+    return 'LP Token';
+  }
+
+  if (upper.startsWith('00')) {
+    const iso = upper.slice(24, 30);
+    const letters = iso.match(/.{2}/g)?.map((byte) => String.fromCharCode(parseInt(byte, 16))).join('') ?? '';
+    return /^[A-Za-z0-9?!@#$%^&*<>(){}[\]|]{3}$/.test(letters) ? letters : code;
+  }
+
+  const bytes = upper.replace(/(00)+$/, '').match(/.{2}/g) ?? [];
+  const text = bytes.map((byte) => String.fromCharCode(parseInt(byte, 16))).join('');
+  return /^[\x20-\x7E]+$/.test(text) ? text : code;
+};
+
+export const isLPTokenCurrency = (code: string): boolean =>
+  code?.length === 40 && code.toUpperCase().startsWith(LP_TOKEN_PREFIX);
+
+/**
+ * Normalises an amount from a transaction or metadata field. Strings are XRP
+ * drops; objects are issued currencies. Anything else (including the literal
+ * "unavailable" rippled reports for old delivered_amount values) is undefined.
+ */
+export const parseAmount = (raw: RawAmount): Amount | undefined => {
+  if (raw === null || raw === undefined) return undefined;
+
+  if (typeof raw === 'number') {
+    return { kind: 'xrp', drops: Math.trunc(raw).toString() };
+  }
+
+  if (typeof raw === 'string') {
+    return /^-?\d+$/.test(raw) ? { kind: 'xrp', drops: raw } : undefined;
+  }
+
+  if (typeof raw === 'object' && raw.currency && raw.value !== undefined) {
+    if (raw.currency === 'XRP' && !raw.issuer) {
+      // Paths and books sometimes express XRP as a decimal value object.
+      return { kind: 'xrp', drops: Math.round(parseFloat(raw.value) * DROPS_PER_XRP).toString() };
+    }
+    return {
+      kind: 'iou',
+      currency: raw.currency,
+      issuer: raw.issuer ?? '',
+      value: raw.value
+    };
+  }
+
+  return undefined;
+};
+
+// For fields the ledger always fills in; the zero fallback only satisfies the types.
+export const requireAmount = (raw: unknown): Amount =>
+  parseAmount(raw as RawAmount) ?? { kind: 'xrp', drops: '0' };
+
+export const isXRPAmount = (amount: Amount | undefined): amount is XRPAmount => amount?.kind === 'xrp';
+
+export const isIssuedAmount = (amount: Amount | undefined): amount is IssuedAmount => amount?.kind === 'iou';
+
+export const dropsToXRP = (drops: string | number): number => Number(drops) / DROPS_PER_XRP;
+
+// Whole XRP or issued units as a float, for ratios and charts rather than exact sums.
+export const amountValue = (amount: Amount): number =>
+  amount.kind === 'xrp' ? dropsToXRP(amount.drops) : parseFloat(amount.value);
+
+// Issued values carry up to 15 significant digits; avoid exponent notation and trailing zeros.
+export const formatIssuedValue = (value: string | number): string => {
+  const numeric = typeof value === 'number' ? value : parseFloat(value);
+  if (!Number.isFinite(numeric)) return String(value);
+  return numeric.toLocaleString('en-US', { maximumSignificantDigits: 15, useGrouping: false });
+};
+
+export const formatCurrency = (amount: Amount): string =>
+  amount.kind === 'xrp' ? 'XRP' : decodeCurrencyCode(amount.currency);
+
+export const formatAmount = (amount: Amount | undefined): string => {
+  if (!amount) return '0.000000 XRP';
+  if (amount.kind === 'xrp') {
+    return `${dropsToXRP(amount.drops).toFixed(6)} XRP`;
+  }
+  return `${formatIssuedValue(amount.value)} ${decodeCurrencyCode(amount.currency)}`;
+};
+
+// Totals per currency (and issuer), in first-seen order.
+export const sumAmounts = (amounts: Amount[]): Amount[] => {
+  const totals = new Map<string, Amount>();
+  for (const amount of amounts) {
+    const key = amount.kind === 'xrp' ? 'XRP' : `${amount.currency}|${amount.issuer}`;
+    const existing = totals.get(key);
+    if (!existing) {
+      totals.set(key, amount);
+    } else if (existing.kind === 'xrp' && amount.kind === 'xrp') {
+      totals.set(key, { kind: 'xrp', drops: addDecimals(existing.drops, amount.drops) });
+    } else if (existing.kind === 'iou' && amount.kind === 'iou') {
+      totals.set(key, { ...existing, value: addDecimals(existing.value, amount.value) });
+    }
+  }
+  return Array.from(totals.values());
+};
@@ -0,0 +1,142 @@
+import { getAccountBalanceChanges } from "./balanceChanges";
+import { addDecimals, compareDecimals, negateDecimal } from "./decimal";
+import type { AssetBalances } from "./history";
+import { compareAssetKeys, getPriceAssetKey } from "./prices";
+import type { Transaction } from "./types";
+
+export type ActivityPeriod = "day" | "week" | "month";
+
+export interface VolumeBucket {
+  // UTC start of the period, in Unix milliseconds.
+  start: number;
+  // Whole units per asset, as positive decimal strings.
+  sent: AssetBalances;
+  received: AssetBalances;
+}
+
+export interface CounterpartyActivity {
+  account: string;
+  count: number;
+  // Sent plus received per asset, as positive decimal strings.
+  volume: AssetBalances;
+}
+
+export interface ActivitySummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  // XRP paid in fees by the account, failed transactions included.
+  fees: string;
+  // Most frequent first.
+  types: { type: string; count: number }[];
+  // Most frequent first; order by volume with sortCounterpartiesByVolume.
+  counterparties: CounterpartyActivity[];
+  // Oldest first, with empty periods filled in.
+  volume: VolumeBucket[];
+  // Assets that moved in the range, XRP first.
+  assets: string[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** UTC start of the day, ISO week (Monday) or month containing `time`. */
+export const getPeriodStart = (time: number, period: ActivityPeriod): number => {
+  const date = new Date(time);
+  if (period === "month") return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return period === "week" ? day - ((date.getUTCDay() + 6) % 7) * DAY : day;
+};
+
+const nextPeriodStart = (start: number, period: ActivityPeriod): number => {
+  if (period === "day") return start + DAY;
+  if (period === "week") return start + 7 * DAY;
+  const date = new Date(start);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+};
+
+const addTo = (totals: AssetBalances, asset: string, value: string) => {
+  totals[asset] = addDecimals(totals[asset] ?? "0", value);
+};
+
+/**
+ * Summarises the account's activity over the given transactions: outcome
+ * counts, fees, type distribution, counterparties and per-period volume. Volume
+ * comes from the account's metadata balance changes, so it reflects what
+ * actually moved; fees are counted separately and not as sent volume.
+ */
+export const summarizeActivity = (
+  transactions: Transaction[],
+  account: string,
+  period: ActivityPeriod,
+  { start, now = Date.now() }: { start?: number; now?: number } = {}
+): ActivitySummary => {
+  const types = new Map<string, number>();
+  const counterparties = new Map<string, CounterpartyActivity>();
+  const buckets = new Map<number, VolumeBucket>();
+  const assets = new Set<string>();
+  let succeeded = 0;
+  let fees = "0";
+  let earliest = now;
+
+  for (const transaction of transactions) {
+    if (transaction.status === "tesSUCCESS") succeeded += 1;
+    types.set(transaction.type, (types.get(transaction.type) ?? 0) + 1);
+
+    const time = transaction.closeTime ? new Date(transaction.closeTime).getTime() : undefined;
+    if (time !== undefined) earliest = Math.min(earliest, time);
+    const bucketStart = time === undefined ? undefined : getPeriodStart(time, period);
+    const bucket =
+      bucketStart === undefined ? undefined : buckets.get(bucketStart) ?? { start: bucketStart, sent: {}, received: {} };
+    if (bucket) buckets.set(bucket.start, bucket);
+
+    const counterpartyAddress = transaction.from === account ? transaction.to : transaction.from;
+    const counterparty =
+      counterpartyAddress && counterpartyAddress !== account
+        ? counterparties.get(counterpartyAddress) ?? { account: counterpartyAddress, count: 0, volume: {} }
+        : undefined;
+    if (counterparty) {
+      counterparty.count += 1;
+      counterparties.set(counterparty.account, counterparty);
+    }
+
+    for (const change of getAccountBalanceChanges(transaction.balanceChanges, account)) {
+      if (change.isFee) {
+        fees = addDecimals(fees, negateDecimal(change.value));
+        continue;
+      }
+      const asset = getPriceAssetKey(change.currency, change.issuer);
+      const outgoing = change.value.startsWith("-");
+      const magnitude = outgoing ? negateDecimal(change.value) : change.value;
+      assets.add(asset);
+      if (bucket) addTo(outgoing ? bucket.sent : bucket.received, asset, magnitude);
+      if (counterparty) addTo(counterparty.volume, asset, magnitude);
+    }
+  }
+
+  // Every period from the start of the range to now, so gaps show as empty bars.
+  const volume: VolumeBucket[] = [];
+  const last = getPeriodStart(now, period);
+  for (let cursor = getPeriodStart(start ?? earliest, period); cursor <= last; cursor = nextPeriodStart(cursor, period)) {
+    volume.push(buckets.get(cursor) ?? { start: cursor, sent: {}, received: {} });
+  }
+
+  return {
+    total: transactions.length,
+    succeeded,
+    failed: transactions.length - succeeded,
+    fees,
+    types: Array.from(types, ([type, count]) => ({ type, count })).sort((a, b) => b.count - a.count),
+    counterparties: Array.from(counterparties.values()).sort((a, b) => b.count - a.count),
+    volume,
+    assets: Array.from(assets).sort(compareAssetKeys)
+  };
+};
+
+/** Counterparties ordered by how much of `asset` moved with them, largest first. */
+export const sortCounterpartiesByVolume = (
+  counterparties: CounterpartyActivity[],
+  asset: string
+): CounterpartyActivity[] =>
+  counterparties
+    .filter((counterparty) => counterparty.volume[asset] !== undefined)
+    .sort((a, b) => compareDecimals(b.volume[asset], a.volume[asset]));
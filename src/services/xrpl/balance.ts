@@ -1,19 +1,137 @@
 
 import { toast } from "sonner";
-import { getClient, formatXRPAmount } from './utils';
-import type { BalanceDetails, AccountInfoResponse } from './types';
+import { getClient } from './connection';
+import { DEFAULT_NETWORK } from './networks';
+import { fetchReserves } from './reserves';
+import {
+  describeLedgerObject,
+  getOwnerCountContribution,
+  getReserveSuggestion,
+  listAccountObjects
+} from './objects';
+import type {
+  BalanceDetails,
+  AccountInfoResponse,
+  LedgerObject,
+  NetworkId,
+  OwnedObject,
+  ReserveBreakdownItem,
+  ReserveInventory
+} from './types';
 
-export const fetchBalance = async (address: string): Promise<BalanceDetails> => {
+const formatXRP = (value: number) => `${value.toFixed(6)} XRP`;
+
+// The balance reads one page of objects for its breakdown; the rest is reported as "Other".
+const BALANCE_OBJECT_PAGES = 1;
+
+const fetchBreakdownObjects = async (address: string, network: NetworkId): Promise<LedgerObject[]> => {
+  try {
+    return (await listAccountObjects(address, network, { maxPages: BALANCE_OBJECT_PAGES })).objects;
+  } catch (error) {
+    console.warn("[XRPL] Could not read account objects for the reserve breakdown:", error);
+    return [];
+  }
+};
+
+/**
+ * Attributes OwnerCount to the owned objects that cost reserve. Any remainder
+ * the object list does not explain (e.g. a truncated or stale listing) is
+ * reported as "Other" so the items always sum to OwnerCount.
+ */
+export const buildReserveBreakdown = (
+  objects: LedgerObject[],
+  account: string,
+  ownerCount: number,
+  ownerReserveXRP: number
+): ReserveBreakdownItem[] => {
+  const byType = new Map<string, { count: number; ownerCount: number }>();
+  for (const object of objects) {
+    const contribution = getOwnerCountContribution(object, account);
+    if (contribution === 0) continue;
+    const entry = byType.get(object.LedgerEntryType) ?? { count: 0, ownerCount: 0 };
+    entry.count += 1;
+    entry.ownerCount += contribution;
+    byType.set(object.LedgerEntryType, entry);
+  }
+
+  const attributed = Array.from(byType.values()).reduce((sum, entry) => sum + entry.ownerCount, 0);
+  if (ownerCount > attributed) {
+    byType.set('Other', { count: ownerCount - attributed, ownerCount: ownerCount - attributed });
+  }
+
+  return Array.from(byType.entries())
+    .map(([type, entry]) => ({
+      type,
+      count: entry.count,
+      ownerCount: entry.ownerCount,
+      reserve: formatXRP(entry.ownerCount * ownerReserveXRP)
+    }))
+    .sort((a, b) => b.ownerCount - a.ownerCount);
+};
+
+/**
+ * Lists each object charged to the account's owner reserve with what it
+ * costs and, where the owner can delete it, how.
+ */
+export const buildOwnedObjectInventory = (
+  objects: LedgerObject[],
+  account: string,
+  ownerReserveXRP: number
+): OwnedObject[] =>
+  objects
+    .map((object) => ({ object, ownerCount: getOwnerCountContribution(object, account) }))
+    .filter(({ ownerCount }) => ownerCount > 0)
+    .map(({ object, ownerCount }) => ({
+      index: object.index,
+      type: object.LedgerEntryType,
+      summary: describeLedgerObject(object, account),
+      ownerCount,
+      reserve: formatXRP(ownerCount * ownerReserveXRP),
+      suggestion: getReserveSuggestion(object, account)
+    }))
+    .sort((a, b) => b.ownerCount - a.ownerCount);
+
+/**
+ * Lists the objects behind the account's OwnerCount. Kept out of fetchBalance
+ * because it walks every page of account_objects; call it only when the
+ * breakdown is shown. Throws if the objects cannot be read, rather than
+ * reporting them all as "Other".
+ */
+export const fetchReserveInventory = async (
+  address: string,
+  ownerCount: number,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<ReserveInventory> => {
+  const [{ ownerReserveXRP }, objects] = await Promise.all([
+    fetchReserves(network),
+    ownerCount > 0 ? listAccountObjects(address, network).then(({ objects }) => objects) : Promise.resolve([])
+  ]);
+  const ownedObjects = buildOwnedObjectInventory(objects, address, ownerReserveXRP);
+  const freeableOwnerCount = ownedObjects
+    .filter((object) => object.suggestion?.ready)
+    .reduce((sum, object) => sum + object.ownerCount, 0);
+
+  return {
+    breakdown: buildReserveBreakdown(objects, address, ownerCount, ownerReserveXRP),
+    ownedObjects,
+    freeableReserve: formatXRP(freeableOwnerCount * ownerReserveXRP)
+  };
+};
+
+export const fetchBalance = async (address: string, network: NetworkId = DEFAULT_NETWORK): Promise<BalanceDetails> => {
   let client = null;
   try {
-    client = await getClient();
-    console.log(`Fetching balance for address: ${address}`);
+    client = await getClient(network);
+    console.log(`Fetching ${network} balance for address: ${address}`);
 
-    const response = await client.request({
-      command: "account_info",
-      account: address,
-      ledger_index: "validated"
-    }) as AccountInfoResponse;
+    const [response, reserves] = await Promise.all([
+      client.request({
+        command: "account_info",
+        account: address,
+        ledger_index: "validated"
+      }) as Promise<AccountInfoResponse>,
+      fetchReserves(network)
+    ]);
 
     if (!response.result?.account_data) {
       console.warn('No balance data found');
@@ -26,17 +144,23 @@ export const fetchBalance = async (address: string): Promise<BalanceDetails> =>
 
     const accountData = response.result.account_data;
     const ownerCount = Number(accountData.OwnerCount || 0);
-    const baseReserve = 10; // Base reserve in XRP
-    const ownerReserve = 2; // Owner reserve in XRP per owned object
-    
+    const { baseReserveXRP, ownerReserveXRP } = reserves;
+
     const totalBalance = Number(accountData.Balance) / 1_000_000;
-    const reserveRequirement = baseReserve + (ownerCount * ownerReserve);
+    const reserveRequirement = baseReserveXRP + (ownerCount * ownerReserveXRP);
     const availableBalance = Math.max(0, totalBalance - reserveRequirement);
+    const objects = ownerCount > 0 ? await fetchBreakdownObjects(address, network) : [];
 
     const balanceDetails: BalanceDetails = {
-      total: `${totalBalance.toFixed(6)} XRP`,
-      available: `${availableBalance.toFixed(6)} XRP`,
-      reserve: `${reserveRequirement.toFixed(6)} XRP`
+      total: formatXRP(totalBalance),
+      available: formatXRP(availableBalance),
+      reserve: formatXRP(reserveRequirement),
+      baseReserve: formatXRP(baseReserveXRP),
+      ownerReserve: formatXRP(ownerReserveXRP),
+      ownerCount,
+      reserveBreakdown: buildReserveBreakdown(objects, address, ownerCount, ownerReserveXRP),
+      flags: Number(accountData.Flags || 0),
+      ammId: accountData.AMMID
     };
 
     console.log(`Balance details for ${address}:`, balanceDetails);
@@ -49,9 +173,5 @@ export const fetchBalance = async (address: string): Promise<BalanceDetails> =>
       available: '0.000000 XRP',
       reserve: '0.000000 XRP'
     };
-  } finally {
-    if (client) {
-      await client.disconnect();
-    }
   }
 };
@@ -0,0 +1,114 @@
+import { addDecimals, dropsToXRPDecimal, isZeroDecimal, negateDecimal, subtractDecimals } from "./decimal";
+import type { AffectedNode, AffectedNodeBody, BalanceChange, XRPLTransactionMeta } from "./types";
+
+interface RippleStateBalance {
+  currency: string;
+  value: string;
+}
+
+interface LimitField {
+  issuer: string;
+}
+
+const nodeBody = (node: AffectedNode): { body: AffectedNodeBody; kind: "created" | "modified" | "deleted" } | null => {
+  if (node.CreatedNode) return { body: node.CreatedNode, kind: "created" };
+  if (node.ModifiedNode) return { body: node.ModifiedNode, kind: "modified" };
+  if (node.DeletedNode) return { body: node.DeletedNode, kind: "deleted" };
+  return null;
+};
+
+// Final and previous values of one field; null when the field did not change.
+const fieldDelta = (body: AffectedNodeBody, kind: string, field: string): { previous: unknown; final: unknown } | null => {
+  if (kind === "created") {
+    const final = body.NewFields?.[field];
+    return final === undefined ? null : { previous: undefined, final };
+  }
+  const previous = body.PreviousFields?.[field];
+  if (previous === undefined) return null;
+  return { previous, final: body.FinalFields?.[field] };
+};
+
+const accountRootChange = (body: AffectedNodeBody, kind: string): BalanceChange | null => {
+  const delta = fieldDelta(body, kind, "Balance");
+  if (!delta) return null;
+  const account = (body.FinalFields?.Account ?? body.NewFields?.Account) as string | undefined;
+  if (!account) return null;
+  const drops = subtractDecimals(String(delta.final ?? "0"), String(delta.previous ?? "0"));
+  return { account, currency: "XRP", issuer: "", value: dropsToXRPDecimal(drops) };
+};
+
+// A RippleState balance is held by the low account against the high account, so
+// the same delta is a gain for one side and a loss for the other.
+const rippleStateChanges = (body: AffectedNodeBody, kind: string): BalanceChange[] => {
+  const delta = fieldDelta(body, kind, "Balance");
+  if (!delta) return [];
+  const fields = kind === "created" ? body.NewFields : body.FinalFields;
+  const low = (fields?.LowLimit as LimitField | undefined)?.issuer;
+  const high = (fields?.HighLimit as LimitField | undefined)?.issuer;
+  const final = delta.final as RippleStateBalance | undefined;
+  const previous = delta.previous as RippleStateBalance | undefined;
+  const currency = final?.currency ?? previous?.currency;
+  if (!low || !high || !currency) return [];
+
+  const value = subtractDecimals(final?.value ?? "0", previous?.value ?? "0");
+  return [
+    { account: low, currency, issuer: high, value },
+    { account: high, currency, issuer: low, value: negateDecimal(value) }
+  ];
+};
+
+const changeKey = (change: BalanceChange) =>
+  `${change.account}|${change.currency}|${change.issuer}|${change.isFee ? "fee" : ""}`;
+
+/**
+ * Net balance changes for every account a transaction touched, derived from
+ * AccountRoot and RippleState diffs in its metadata. The sender's XRP change is
+ * split into the fee and everything else, so DEX crossings, partial payments
+ * and failed transactions (which still burn the fee) all report what actually
+ * moved rather than what the transaction asked for.
+ */
+export const getTransactionBalanceChanges = (
+  txJson: { Account?: string; Fee?: string | number },
+  meta: XRPLTransactionMeta | string | undefined
+): BalanceChange[] => {
+  if (!meta || typeof meta === "string" || !Array.isArray(meta.AffectedNodes)) {
+    return [];
+  }
+
+  const totals = new Map<string, BalanceChange>();
+  const add = (change: BalanceChange) => {
+    const key = changeKey(change);
+    const existing = totals.get(key);
+    totals.set(key, existing ? { ...existing, value: addDecimals(existing.value, change.value) } : change);
+  };
+
+  for (const node of meta.AffectedNodes) {
+    const entry = nodeBody(node);
+    if (!entry) continue;
+    if (entry.body.LedgerEntryType === "AccountRoot") {
+      const change = accountRootChange(entry.body, entry.kind);
+      if (change) add(change);
+    } else if (entry.body.LedgerEntryType === "RippleState") {
+      rippleStateChanges(entry.body, entry.kind).forEach(add);
+    }
+  }
+
+  if (txJson.Account && txJson.Fee !== undefined && !isZeroDecimal(txJson.Fee)) {
+    const fee = dropsToXRPDecimal(txJson.Fee);
+    add({ account: txJson.Account, currency: "XRP", issuer: "", value: negateDecimal(fee), isFee: true });
+    add({ account: txJson.Account, currency: "XRP", issuer: "", value: fee });
+  }
+
+  return Array.from(totals.values()).filter((change) => change.isFee || !isZeroDecimal(change.value));
+};
+
+export const getAccountBalanceChanges = (changes: BalanceChange[] | undefined, account: string): BalanceChange[] =>
+  (changes ?? []).filter((change) => change.account === account);
+
+export const groupBalanceChangesByAccount = (changes: BalanceChange[]): Map<string, BalanceChange[]> => {
+  const grouped = new Map<string, BalanceChange[]>();
+  for (const change of changes) {
+    grouped.set(change.account, [...(grouped.get(change.account) ?? []), change]);
+  }
+  return grouped;
+};
@@ -11,3 +11,20 @@ export const XRPL_SERVERS = [
   "wss://s2.ripple.com/",  // Ripple's full-history public server
   "wss://xrplcluster.com/", // XRP Ledger Foundation cluster (alias of xrpl.ws)
 ] as const;
+
+export const TESTNET_SERVERS = [
+  "wss://s.altnet.rippletest.net:51233",
+  "wss://testnet.xrpl-labs.com",
+  "wss://clio.altnet.rippletest.net:51233",
+] as const;
+
+export const DEVNET_SERVERS = [
+  "wss://s.devnet.rippletest.net:51233",
+  "wss://clio.devnet.rippletest.net:51233",
+] as const;
+
+// Default for a local standalone rippled started with the stock config.
+export const DEFAULT_CUSTOM_ENDPOINT = "ws://localhost:6006";
+
+// Public gateway for ipfs:// NFT URIs; users can point this at their own.
+export const DEFAULT_IPFS_GATEWAY = "https://ipfs.io/ipfs/";
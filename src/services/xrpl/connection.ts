@@ -0,0 +1,205 @@
+import { Client } from 'xrpl';
+import { DEFAULT_NETWORK, getNetwork } from './networks';
+import type { NetworkId } from './types';
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+// A server that failed within this window is ranked behind every server that did not.
+const FAILURE_PENALTY_WINDOW_MS = 60_000;
+const INTENTIONAL_DISCONNECT_CODE = 4000;
+
+export interface ServerHealth {
+  url: string;
+  successes: number;
+  failures: number;
+  latencyMs: number | null;
+  lastFailureAt: number | null;
+}
+
+type ConnectionListener = (client: Client) => void;
+
+interface PooledConnection {
+  servers: string[];
+  client: Client | null;
+  // Notified with every new client, so stream subscriptions survive failover.
+  listeners: Set<ConnectionListener>;
+  pending: Promise<Client> | null;
+  reconnectAttempt: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const pools = new Map<string, PooledConnection>();
+const serverHealth = new Map<string, ServerHealth>();
+
+const normalizeServerUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+const getHealth = (url: string): ServerHealth => {
+  let health = serverHealth.get(url);
+  if (!health) {
+    health = { url, successes: 0, failures: 0, latencyMs: null, lastFailureAt: null };
+    serverHealth.set(url, health);
+  }
+  return health;
+};
+
+const recordSuccess = (url: string, latencyMs: number) => {
+  const health = getHealth(url);
+  health.successes += 1;
+  // Exponentially weighted so one slow handshake does not bury a good server.
+  health.latencyMs = health.latencyMs === null ? latencyMs : Math.round(health.latencyMs * 0.7 + latencyMs * 0.3);
+};
+
+const recordFailure = (url: string) => {
+  const health = getHealth(url);
+  health.failures += 1;
+  health.lastFailureAt = Date.now();
+};
+
+// Lower is better. Unknown servers sit between fast and slow known ones.
+const scoreServer = (url: string): number => {
+  const health = getHealth(url);
+  const latency = health.latencyMs ?? 1_000;
+  const attempts = health.successes + health.failures;
+  const failureRate = attempts === 0 ? 0 : health.failures / attempts;
+  const recentlyFailed = health.lastFailureAt !== null && Date.now() - health.lastFailureAt < FAILURE_PENALTY_WINDOW_MS;
+  return latency + failureRate * 5_000 + (recentlyFailed ? 60_000 : 0);
+};
+
+const rankServers = (servers: string[]): string[] => {
+  // Shuffle first so equally scored servers share the load between visitors.
+  const shuffled = [...servers].sort(() => Math.random() - 0.5);
+  return shuffled.sort((a, b) => scoreServer(a) - scoreServer(b));
+};
+
+const getPool = (key: string, servers: readonly string[]): PooledConnection => {
+  const normalized = Array.from(new Set(servers.map(normalizeServerUrl)));
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = { servers: normalized, client: null, listeners: new Set(), pending: null, reconnectAttempt: 0, reconnectTimer: null };
+    pools.set(key, pool);
+  }
+  return pool;
+};
+
+const getNetworkPool = (networkId: NetworkId): [string, PooledConnection] => {
+  const network = getNetwork(networkId);
+  // A changed custom endpoint gets a fresh pool rather than reusing the old socket.
+  const key = network.id === 'custom' ? `custom:${network.servers[0]}` : network.id;
+  return [key, getPool(key, network.servers)];
+};
+
+const scheduleReconnect = (key: string, pool: PooledConnection) => {
+  if (pool.reconnectTimer || pools.get(key) !== pool) return;
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** pool.reconnectAttempt);
+  const delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  pool.reconnectAttempt += 1;
+  console.log(`[XRPL] Reconnecting ${key} pool in ${delayMs}ms (attempt ${pool.reconnectAttempt})`);
+  pool.reconnectTimer = setTimeout(() => {
+    pool.reconnectTimer = null;
+    connectPool(key, pool).catch(() => scheduleReconnect(key, pool));
+  }, delayMs);
+};
+
+const connectToBestServer = async (key: string, pool: PooledConnection): Promise<Client> => {
+  for (const server of rankServers(pool.servers)) {
+    const client = new Client(server, { connectionTimeout: CONNECT_TIMEOUT_MS });
+    const startedAt = performance.now();
+    try {
+      await client.connect();
+    } catch (error) {
+      recordFailure(server);
+      console.error(`Failed to connect to ${server}:`, error);
+      continue;
+    }
+
+    recordSuccess(server, performance.now() - startedAt);
+    console.log(`Connected to ${server}`);
+
+    client.on('disconnected', (code: number) => {
+      if (pool.client !== client) return;
+      pool.client = null;
+      if (code === INTENTIONAL_DISCONNECT_CODE) return;
+
+      console.warn(`[XRPL] Lost connection to ${server} (code ${code})`);
+      recordFailure(server);
+      // Stop the client's own same-server retry loop; the pool fails over instead.
+      client.disconnect().catch(() => undefined);
+      scheduleReconnect(key, pool);
+    });
+
+    return client;
+  }
+  throw new Error("Could not connect to any XRPL server");
+};
+
+const connectPool = (key: string, pool: PooledConnection): Promise<Client> => {
+  if (!pool.pending) {
+    pool.pending = connectToBestServer(key, pool)
+      .then((client) => {
+        // The pool was closed while connecting, e.g. its custom endpoint was replaced.
+        if (pools.get(key) !== pool) {
+          client.disconnect().catch(() => undefined);
+          throw new Error(`Connection to ${key} was closed`);
+        }
+        pool.client = client;
+        pool.reconnectAttempt = 0;
+        pool.listeners.forEach((listener) => listener(client));
+        return client;
+      })
+      .finally(() => {
+        pool.pending = null;
+      });
+  }
+  return pool.pending;
+};
+
+/**
+ * Returns the shared client for a network, connecting to its healthiest
+ * server on first use. Callers must not disconnect the returned client.
+ */
+export const getClient = async (networkId: NetworkId = DEFAULT_NETWORK): Promise<Client> => {
+  const [key, pool] = getNetworkPool(networkId);
+  if (pool.client?.isConnected()) {
+    return pool.client;
+  }
+  return connectPool(key, pool);
+};
+
+/**
+ * Registers a callback for each client the network's pool connects from now
+ * on, i.e. after a reconnect or failover. Returns an unregister function.
+ */
+export const onClientConnected = (networkId: NetworkId, listener: ConnectionListener): (() => void) => {
+  const [, pool] = getNetworkPool(networkId);
+  pool.listeners.add(listener);
+  return () => {
+    pool.listeners.delete(listener);
+  };
+};
+
+/**
+ * Closes the network's pool and its client. Call before replacing the custom
+ * endpoint so the old server's socket and reconnect loop do not linger.
+ */
+export const disconnectNetwork = async (networkId: NetworkId): Promise<void> => {
+  const [key, pool] = getNetworkPool(networkId);
+  pools.delete(key);
+  if (pool.reconnectTimer) clearTimeout(pool.reconnectTimer);
+  const client = pool.client;
+  pool.client = null;
+  await client?.disconnect().catch(() => undefined);
+};
+
+export const getServerHealth = (): ServerHealth[] =>
+  Array.from(serverHealth.values()).sort((a, b) => scoreServer(a.url) - scoreServer(b.url));
+
+export const disconnectAll = async (): Promise<void> => {
+  const clients: Client[] = [];
+  pools.forEach((pool) => {
+    if (pool.reconnectTimer) clearTimeout(pool.reconnectTimer);
+    if (pool.client) clients.push(pool.client);
+  });
+  pools.clear();
+  await Promise.all(clients.map((client) => client.disconnect().catch(() => undefined)));
+};
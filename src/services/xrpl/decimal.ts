@@ -0,0 +1,63 @@
+// Exact decimal arithmetic for ledger values. Issued-currency amounts carry 15
+// significant digits over a huge exponent range, so floats drift on subtraction.
+
+interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+const parseDecimal = (value: string | number): Decimal => {
+  const match = String(value).trim().match(DECIMAL_PATTERN);
+  if (!match || (!match[2] && !match[3])) {
+    return { units: 0n, scale: 0 };
+  }
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  let units = BigInt(`${whole}${fraction}` || '0');
+  let scale = fraction.length - Number(exponent);
+  if (scale < 0) {
+    units *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { units: sign === '-' ? -units : units, scale };
+};
+
+const align = (a: Decimal, b: Decimal): [bigint, bigint, number] => {
+  const scale = Math.max(a.scale, b.scale);
+  return [a.units * 10n ** BigInt(scale - a.scale), b.units * 10n ** BigInt(scale - b.scale), scale];
+};
+
+const formatDecimal = ({ units, scale }: Decimal): string => {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = scale > 0 ? digits.slice(digits.length - scale).replace(/0+$/, '') : '';
+  const text = fraction ? `${whole}.${fraction}` : whole;
+  return negative && text !== '0' ? `-${text}` : text;
+};
+
+export const addDecimals = (a: string | number, b: string | number): string => {
+  const [x, y, scale] = align(parseDecimal(a), parseDecimal(b));
+  return formatDecimal({ units: x + y, scale });
+};
+
+export const subtractDecimals = (a: string | number, b: string | number): string => {
+  const [x, y, scale] = align(parseDecimal(a), parseDecimal(b));
+  return formatDecimal({ units: x - y, scale });
+};
+
+export const negateDecimal = (value: string | number): string => {
+  const parsed = parseDecimal(value);
+  return formatDecimal({ units: -parsed.units, scale: parsed.scale });
+};
+
+export const compareDecimals = (a: string | number, b: string | number): number => {
+  const [x, y] = align(parseDecimal(a), parseDecimal(b));
+  return x === y ? 0 : x < y ? -1 : 1;
+};
+
+export const isZeroDecimal = (value: string | number): boolean => parseDecimal(value).units === 0n;
+
+export const dropsToXRPDecimal = (drops: string | number): string =>
+  formatDecimal({ units: parseDecimal(drops).units, scale: 6 });
@@ -0,0 +1,208 @@
+import { toast } from "sonner";
+import type { BookOffer, BookOfferCurrency, TransactionStream } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { amountValue, decodeCurrencyCode, requireAmount } from "./amount";
+import { subscribeToBook } from "./subscriptions";
+import type { AffectedNode, Amount, BookAsset, DexTrade, NetworkId, OrderBook, OrderBookOffer } from "./types";
+
+const BOOK_DEPTH = 100;
+const STANDARD_CURRENCY_PATTERN = /^[A-Z0-9?!@#$%^&*<>(){}[\]|]{3}$/i;
+const HEX_CURRENCY_PATTERN = /^[0-9A-F]{40}$/i;
+const CLASSIC_ADDRESS_PATTERN = /^r[1-9A-HJ-NP-Za-km-z]{24,34}$/;
+
+// Codes longer than three characters are sent as zero-padded 160-bit hex.
+// Three-character codes are case-sensitive on the ledger, so they are kept as given.
+const toCurrencyCode = (code: string): string | null => {
+  if (HEX_CURRENCY_PATTERN.test(code)) return code.toUpperCase();
+  if (STANDARD_CURRENCY_PATTERN.test(code)) return code;
+  if (code.length > 20 || !/^[\x20-\x7E]+$/.test(code)) return null;
+  const hex = Array.from(code, (char) => char.charCodeAt(0).toString(16).padStart(2, "0")).join("");
+  return hex.toUpperCase().padEnd(40, "0");
+};
+
+/**
+ * Parses a pair segment from a /dex URL: "XRP", or "CODE.rIssuer" for issued
+ * currencies. Returns null for anything else. The router has already decoded
+ * the segment, so a "%" in it is part of the code.
+ */
+export const parseBookAsset = (segment: string): BookAsset | null => {
+  const [code, issuer, ...rest] = segment.trim().split(".");
+  if (rest.length > 0 || !code) return null;
+  if (code === "XRP") {
+    return issuer ? null : { currency: "XRP" };
+  }
+  const currency = toCurrencyCode(code);
+  if (!currency || !issuer || !CLASSIC_ADDRESS_PATTERN.test(issuer)) return null;
+  return { currency, issuer };
+};
+
+// The inverse of parseBookAsset, using the readable code where there is one.
+export const formatBookAsset = (asset: BookAsset): string => {
+  if (!asset.issuer) return "XRP";
+  const readable = decodeCurrencyCode(asset.currency);
+  const code = toCurrencyCode(readable) === asset.currency ? readable : asset.currency;
+  return `${encodeURIComponent(code)}.${asset.issuer}`;
+};
+
+export const getBookAssetLabel = (asset: BookAsset): string =>
+  asset.issuer ? decodeCurrencyCode(asset.currency) : "XRP";
+
+export const getOrderBookPath = (base: BookAsset, counter: BookAsset): string =>
+  `/dex/${formatBookAsset(base)}/${formatBookAsset(counter)}`;
+
+// The pair an amount field belongs to, for linking offers to their book.
+export const toBookAsset = (amount: unknown): BookAsset | null => {
+  if (typeof amount === "string") return { currency: "XRP" };
+  const issued = amount as { currency?: string; issuer?: string } | undefined;
+  if (!issued?.currency) return null;
+  return issued.currency === "XRP" && !issued.issuer
+    ? { currency: "XRP" }
+    : { currency: issued.currency, issuer: issued.issuer };
+};
+
+export const getAmountBookAsset = (amount: Amount): BookAsset =>
+  amount.kind === "xrp" ? { currency: "XRP" } : { currency: amount.currency, issuer: amount.issuer };
+
+const isSameAsset = (amount: unknown, asset: BookAsset): boolean => {
+  const other = toBookAsset(amount);
+  return Boolean(other && other.currency === asset.currency && other.issuer === asset.issuer);
+};
+
+// Which side of the pair an Offer entry is on, or null when it is another pair's.
+const offerSide = (fields: Record<string, unknown>, base: BookAsset, counter: BookAsset): "bid" | "ask" | null => {
+  if (isSameAsset(fields.TakerGets, base) && isSameAsset(fields.TakerPays, counter)) return "ask";
+  if (isSameAsset(fields.TakerGets, counter) && isSameAsset(fields.TakerPays, base)) return "bid";
+  return null;
+};
+
+const rawAmountValue = (amount: unknown): number => amountValue(requireAmount(amount));
+
+const toBookCurrency = (asset: BookAsset): BookOfferCurrency =>
+  asset.issuer ? { currency: asset.currency, issuer: asset.issuer } : { currency: "XRP" };
+
+// Funded amounts are only present when the owner cannot cover the whole offer.
+const toOrderBookOffer = (offer: BookOffer, side: "bid" | "ask"): OrderBookOffer | null => {
+  const gets = rawAmountValue(offer.taker_gets_funded ?? offer.TakerGets);
+  const pays = rawAmountValue(offer.taker_pays_funded ?? offer.TakerPays);
+  if (!(gets > 0) || !(pays > 0)) return null;
+
+  // Asks give the base asset away; bids give the counter asset.
+  const [amount, total] = side === "ask" ? [gets, pays] : [pays, gets];
+  return {
+    index: offer.index,
+    account: offer.Account,
+    sequence: offer.Sequence,
+    price: total / amount,
+    amount,
+    total
+  };
+};
+
+export const fetchOrderBook = async (
+  base: BookAsset,
+  counter: BookAsset,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<OrderBook | null> => {
+  try {
+    const client = await getClient(network);
+    console.log(`[XRPL] Fetching ${network} order book:`, formatBookAsset(base), formatBookAsset(counter));
+
+    const requestSide = (takerGets: BookAsset, takerPays: BookAsset) =>
+      client.request({
+        command: "book_offers",
+        taker_gets: toBookCurrency(takerGets),
+        taker_pays: toBookCurrency(takerPays),
+        ledger_index: "validated",
+        limit: BOOK_DEPTH
+      });
+
+    const [asks, bids] = await Promise.all([requestSide(base, counter), requestSide(counter, base)]);
+    const toOffers = (offers: BookOffer[], side: "bid" | "ask") =>
+      offers.map((offer) => toOrderBookOffer(offer, side)).filter((offer): offer is OrderBookOffer => offer !== null);
+
+    return {
+      asks: toOffers(asks.result.offers, "ask").sort((a, b) => a.price - b.price),
+      bids: toOffers(bids.result.offers, "bid").sort((a, b) => b.price - a.price),
+      ledgerIndex: asks.result.ledger_index
+    };
+  } catch (error) {
+    console.error("[XRPL] Error fetching order book:", error);
+    toast.error("Failed to fetch order book");
+    return null;
+  }
+};
+
+/**
+ * Reads the fills of a validated transaction from its metadata: every Offer
+ * node on this pair whose TakerGets/TakerPays shrank was (partly) consumed.
+ */
+export const extractDexTrades = (message: TransactionStream, base: BookAsset, counter: BookAsset): DexTrade[] => {
+  const raw = message as unknown as Record<string, unknown>;
+  // API v2 streams carry tx_json; v1 streams carry transaction.
+  const txJson = (raw.tx_json ?? raw.transaction) as Record<string, unknown> | undefined;
+  const meta = raw.meta as { TransactionResult?: string; AffectedNodes?: AffectedNode[] } | undefined;
+  if (!txJson || meta?.TransactionResult !== "tesSUCCESS") return [];
+
+  const hash = String(raw.hash ?? txJson.hash);
+  const trades: DexTrade[] = [];
+  for (const node of meta.AffectedNodes ?? []) {
+    const body = node.ModifiedNode ?? node.DeletedNode;
+    const previous = body?.PreviousFields;
+    const final = body?.FinalFields;
+    // Cancelled offers are deleted without PreviousFields.
+    if (body?.LedgerEntryType !== "Offer" || !previous?.TakerGets || !previous.TakerPays || !final) continue;
+
+    const gets = rawAmountValue(previous.TakerGets) - rawAmountValue(final.TakerGets);
+    const pays = rawAmountValue(previous.TakerPays) - rawAmountValue(final.TakerPays);
+    if (!(gets > 0) || !(pays > 0)) continue;
+
+    const makerSide = offerSide(final, base, counter);
+    if (!makerSide) continue;
+    // A resting ask sold the base asset, so the taker bought it.
+    const [amount, total] = makerSide === "ask" ? [gets, pays] : [pays, gets];
+
+    trades.push({
+      id: `${hash}:${body.LedgerIndex}`,
+      hash,
+      ledgerIndex: Number(raw.ledger_index),
+      taker: String(txJson.Account),
+      maker: String(final.Account),
+      side: makerSide === "ask" ? "buy" : "sell",
+      price: total / amount,
+      amount,
+      total
+    });
+  }
+  return trades;
+};
+
+const touchesBook = (message: TransactionStream, base: BookAsset, counter: BookAsset): boolean => {
+  const meta = (message as unknown as { meta?: { AffectedNodes?: AffectedNode[] } }).meta;
+  return (meta?.AffectedNodes ?? []).some((node) => {
+    const body = node.CreatedNode ?? node.ModifiedNode ?? node.DeletedNode;
+    const fields = body?.FinalFields ?? body?.NewFields;
+    return body?.LedgerEntryType === "Offer" && fields !== undefined && offerSide(fields, base, counter) !== null;
+  });
+};
+
+export interface OrderBookHandlers {
+  // Some transaction touched the book; refetch it when convenient.
+  onChange?: () => void;
+  onTrades?: (trades: DexTrade[]) => void;
+}
+
+// Follows the pair's book subscription and reports fills as they validate.
+export const subscribeToOrderBook = (
+  base: BookAsset,
+  counter: BookAsset,
+  handlers: OrderBookHandlers,
+  network: NetworkId = DEFAULT_NETWORK
+): (() => void) =>
+  subscribeToBook(base, counter, (message) => {
+    // The client delivers every subscribed transaction, not just this book's.
+    if (!touchesBook(message, base, counter)) return;
+    handlers.onChange?.();
+    const trades = extractDexTrades(message, base, counter);
+    if (trades.length > 0) handlers.onTrades?.(trades);
+  }, network);
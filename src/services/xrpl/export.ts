@@ -0,0 +1,186 @@
+import { DEFAULT_NETWORK } from "./networks";
+import { decodeCurrencyCode } from "./amount";
+import { getAccountBalanceChanges } from "./balanceChanges";
+import { negateDecimal } from "./decimal";
+import { iterateTransactionPages } from "./transactions";
+import type { NetworkId, Transaction } from "./types";
+
+export type ExportFormat = "csv" | "jsonl" | "xlsx";
+
+export interface ExportRow {
+  date: string;
+  ledger: number | "";
+  hash: string;
+  type: string;
+  counterparty: string;
+  // Signed change to the exported account, in whole units; empty when nothing moved.
+  amount: string;
+  currency: string;
+  issuer: string;
+  // Paid by the exported account; only on the first row of a transaction so totals are not doubled.
+  fee: string;
+  result: string;
+  sourceTag: string;
+  destinationTag: string;
+  memos: string;
+}
+
+export const EXPORT_COLUMNS: { key: keyof ExportRow; header: string }[] = [
+  { key: "date", header: "Date (UTC)" },
+  { key: "ledger", header: "Ledger" },
+  { key: "hash", header: "Hash" },
+  { key: "type", header: "Type" },
+  { key: "counterparty", header: "Counterparty" },
+  { key: "amount", header: "Amount" },
+  { key: "currency", header: "Currency" },
+  { key: "issuer", header: "Issuer" },
+  { key: "fee", header: "Fee (XRP)" },
+  { key: "result", header: "Result" },
+  { key: "sourceTag", header: "Source tag" },
+  { key: "destinationTag", header: "Destination tag" },
+  { key: "memos", header: "Memos" }
+];
+
+// Signed numbers, written as values; every other column is free text.
+const NUMERIC_COLUMNS: ReadonlySet<keyof ExportRow> = new Set<keyof ExportRow>(["ledger", "amount", "fee"]);
+
+export interface ExportRange {
+  // Inclusive bounds; dates are matched against the ledger close time.
+  startDate?: Date;
+  endDate?: Date;
+  ledgerIndexMin?: number;
+  ledgerIndexMax?: number;
+}
+
+/**
+ * One row per currency the transaction moved for the account, or a single row
+ * when only the fee (or nothing) changed, e.g. AccountSet or a failed payment.
+ */
+export const toExportRows = (transaction: Transaction, account: string): ExportRow[] => {
+  const changes = getAccountBalanceChanges(transaction.balanceChanges, account);
+  const fee = changes.find((change) => change.isFee);
+  const moved = changes.filter((change) => !change.isFee);
+
+  const base = {
+    date: transaction.closeTime ?? transaction.date,
+    ledger: transaction.ledgerIndex ?? ("" as const),
+    hash: transaction.hash,
+    type: transaction.type,
+    counterparty: transaction.from === account ? transaction.to : transaction.from,
+    result: transaction.status,
+    sourceTag: transaction.sourceTag ?? "",
+    destinationTag: transaction.destinationTag?.toString() ?? "",
+    memos: (transaction.memos ?? (transaction.memo ? [transaction.memo] : [])).join(" | ")
+  };
+  const feeValue = fee ? negateDecimal(fee.value) : "";
+
+  if (moved.length === 0) {
+    return [{ ...base, amount: "", currency: "", issuer: "", fee: feeValue }];
+  }
+  return moved.map((change, index) => ({
+    ...base,
+    amount: change.value,
+    currency: decodeCurrencyCode(change.currency),
+    issuer: change.issuer,
+    fee: index === 0 ? feeValue : ""
+  }));
+};
+
+const inDateRange = (transaction: Transaction, range: ExportRange): "before" | "inside" | "after" => {
+  if (!transaction.closeTime || (!range.startDate && !range.endDate)) return "inside";
+  const time = new Date(transaction.closeTime).getTime();
+  if (range.startDate && time < range.startDate.getTime()) return "before";
+  if (range.endDate && time > range.endDate.getTime()) return "after";
+  return "inside";
+};
+
+/**
+ * Walks the account's full account_tx history, newest first, within the given
+ * ledger range and collects export rows for the transactions inside the date
+ * range. Stops early once it passes the start date. Throws if a page fails so
+ * an export is never silently truncated.
+ */
+export const collectExportRows = async (
+  address: string,
+  range: ExportRange = {},
+  network: NetworkId = DEFAULT_NETWORK,
+  onProgress?: (scanned: number) => void,
+  signal?: AbortSignal
+): Promise<ExportRow[]> => {
+  const rows: ExportRow[] = [];
+  let scanned = 0;
+  const pages = iterateTransactionPages(
+    address,
+    { ledgerIndexMin: range.ledgerIndexMin, ledgerIndexMax: range.ledgerIndexMax },
+    network
+  );
+
+  for await (const page of pages) {
+    if (signal?.aborted) break;
+    let passedStart = false;
+    for (const transaction of page.transactions) {
+      const position = inDateRange(transaction, range);
+      if (position === "before") {
+        passedStart = true;
+        break;
+      }
+      if (position === "inside") rows.push(...toExportRows(transaction, address));
+    }
+    scanned += page.transactions.length;
+    onProgress?.(scanned);
+    if (passedStart) break;
+  }
+
+  return rows;
+};
+
+// Leading characters that make Excel and other spreadsheets read a cell as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Prefixes free text such as memos, which any sender can set, with ' so a
+ * spreadsheet shows it instead of evaluating e.g. =HYPERLINK(...). Not for
+ * numeric columns, whose negative values would otherwise become text.
+ */
+export const escapeSpreadsheetText = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV with CRLF line endings, which Excel expects.
+export const serializeCSVRows = (rows: (string | number)[][]): string =>
+  rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+export const serializeCSV = (rows: ExportRow[]): string =>
+  serializeCSVRows([
+    EXPORT_COLUMNS.map(({ header }) => header),
+    ...rows.map((row) =>
+      EXPORT_COLUMNS.map(({ key }) => (NUMERIC_COLUMNS.has(key) ? row[key] : escapeSpreadsheetText(String(row[key]))))
+    )
+  ]);
+
+export const serializeJSONL = (rows: ExportRow[]): string =>
+  rows.map((row) => JSON.stringify(row)).join("\n") + (rows.length > 0 ? "\n" : "");
+
+// Spreadsheet numbers are doubles, exact to 15 significant digits; longer values stay text.
+const MAX_EXACT_DIGITS = 15;
+
+export const toSpreadsheetNumber = (value: string): number | string => {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return value;
+  const digits = value.replace(/^-/, "").replace(".", "").replace(/^0+/, "");
+  return digits.length <= MAX_EXACT_DIGITS ? Number(value) : value;
+};
+
+// Header row plus one row per entry, with amounts and fees as numbers where exact.
+// Text cells become inline strings in lib/xlsx, which are never evaluated as formulas.
+export const toSpreadsheetRows = (rows: ExportRow[]): (string | number)[][] => [
+  EXPORT_COLUMNS.map(({ header }) => header),
+  ...rows.map((row) =>
+    EXPORT_COLUMNS.map(({ key }) => {
+      const value = row[key];
+      return key === "amount" || key === "fee" ? toSpreadsheetNumber(String(value)) : value;
+    })
+  )
+];
@@ -0,0 +1,177 @@
+import type { DecodedFlag } from './types';
+
+type FlagTable = Record<string, { value: number; description: string; warning?: boolean }>;
+
+// Flags valid on every transaction type.
+const UNIVERSAL_TX_FLAGS: FlagTable = {
+  tfFullyCanonicalSig: { value: 0x80000000, description: 'Requires a fully-canonical signature' },
+  tfInnerBatchTxn: { value: 0x40000000, description: 'Inner transaction of a Batch' }
+};
+
+const TX_FLAGS: Record<string, FlagTable> = {
+  Payment: {
+    tfNoRippleDirect: { value: 0x00010000, description: 'Do not use the default path' },
+    tfPartialPayment: {
+      value: 0x00020000,
+      description: 'Partial payment: the amount delivered may be far less than Amount',
+      warning: true
+    },
+    tfLimitQuality: { value: 0x00040000, description: 'Only take paths at or better than the SendMax/Amount ratio' }
+  },
+  OfferCreate: {
+    tfPassive: { value: 0x00010000, description: 'Do not consume offers that exactly match' },
+    tfImmediateOrCancel: { value: 0x00020000, description: 'Fill what is possible now, never rest on the book' },
+    tfFillOrKill: { value: 0x00040000, description: 'Fill completely or not at all' },
+    tfSell: { value: 0x00080000, description: 'Sell all of TakerGets even for more than TakerPays' },
+    tfHybrid: { value: 0x00100000, description: 'Place in both a permissioned and the open order book' }
+  },
+  TrustSet: {
+    tfSetfAuth: { value: 0x00010000, description: 'Authorize the counterparty to hold this token' },
+    tfSetNoRipple: { value: 0x00020000, description: 'Disable rippling on this line' },
+    tfClearNoRipple: { value: 0x00040000, description: 'Enable rippling on this line' },
+    tfSetFreeze: { value: 0x00100000, description: 'Freeze the line', warning: true },
+    tfClearFreeze: { value: 0x00200000, description: 'Unfreeze the line' },
+    tfSetDeepFreeze: { value: 0x00400000, description: 'Deep freeze the line', warning: true },
+    tfClearDeepFreeze: { value: 0x00800000, description: 'Clear a deep freeze' }
+  },
+  AccountSet: {
+    tfRequireDestTag: { value: 0x00010000, description: 'Require a destination tag on incoming payments' },
+    tfOptionalDestTag: { value: 0x00020000, description: 'Stop requiring destination tags' },
+    tfRequireAuth: { value: 0x00040000, description: 'Require authorization for trust lines' },
+    tfOptionalAuth: { value: 0x00080000, description: 'Stop requiring trust line authorization' },
+    tfDisallowXRP: { value: 0x00100000, description: 'Ask senders not to send XRP' },
+    tfAllowXRP: { value: 0x00200000, description: 'Allow XRP again' }
+  },
+  PaymentChannelClaim: {
+    tfRenew: { value: 0x00010000, description: 'Clear the channel expiration' },
+    tfClose: { value: 0x00020000, description: 'Request to close the channel' }
+  },
+  NFTokenMint: {
+    tfBurnable: { value: 0x00000001, description: 'Issuer may burn the token' },
+    tfOnlyXRP: { value: 0x00000002, description: 'Can only be traded for XRP' },
+    tfTrustLine: { value: 0x00000004, description: 'Auto-create trust lines for transfer fees' },
+    tfTransferable: { value: 0x00000008, description: 'Can be transferred between holders' },
+    tfMutable: { value: 0x00000010, description: 'URI can be modified' }
+  },
+  NFTokenCreateOffer: {
+    tfSellNFToken: { value: 0x00000001, description: 'Sell offer (otherwise a buy offer)' }
+  },
+  AMMDeposit: {
+    tfLPToken: { value: 0x00010000, description: 'Deposit for a specific LP token amount' },
+    tfSingleAsset: { value: 0x00080000, description: 'Deposit one asset' },
+    tfTwoAsset: { value: 0x00100000, description: 'Deposit both assets' },
+    tfOneAssetLPToken: { value: 0x00200000, description: 'Deposit one asset for a specific LP token amount' },
+    tfLimitLPToken: { value: 0x00400000, description: 'Deposit one asset up to an effective price' },
+    tfTwoAssetIfEmpty: { value: 0x00800000, description: 'Deposit both assets into an empty pool' }
+  },
+  AMMWithdraw: {
+    tfLPToken: { value: 0x00010000, description: 'Return a specific LP token amount' },
+    tfWithdrawAll: { value: 0x00020000, description: 'Return all LP tokens for both assets' },
+    tfOneAssetWithdrawAll: { value: 0x00040000, description: 'Return all LP tokens for one asset' },
+    tfSingleAsset: { value: 0x00080000, description: 'Withdraw one asset' },
+    tfTwoAsset: { value: 0x00100000, description: 'Withdraw both assets' },
+    tfOneAssetLPToken: { value: 0x00200000, description: 'Withdraw one asset for a specific LP token amount' },
+    tfLimitLPToken: { value: 0x00400000, description: 'Withdraw one asset down to an effective price' }
+  },
+  AMMClawback: {
+    tfClawTwoAssets: { value: 0x00000001, description: 'Claw back both pool assets' }
+  },
+  EnableAmendment: {
+    tfGotMajority: { value: 0x00010000, description: 'Amendment gained majority support' },
+    tfLostMajority: { value: 0x00020000, description: 'Amendment lost majority support' }
+  },
+  MPTokenIssuanceCreate: {
+    tfMPTCanLock: { value: 0x00000002, description: 'Issuer can lock balances' },
+    tfMPTRequireAuth: { value: 0x00000004, description: 'Holders must be authorized' },
+    tfMPTCanEscrow: { value: 0x00000008, description: 'Can be escrowed' },
+    tfMPTCanTrade: { value: 0x00000010, description: 'Can be traded on the DEX' },
+    tfMPTCanTransfer: { value: 0x00000020, description: 'Can be transferred between holders' },
+    tfMPTCanClawback: { value: 0x00000040, description: 'Issuer can claw back' }
+  },
+  MPTokenIssuanceSet: {
+    tfMPTLock: { value: 0x00000001, description: 'Lock balances' },
+    tfMPTUnlock: { value: 0x00000002, description: 'Unlock balances' }
+  },
+  MPTokenAuthorize: {
+    tfMPTUnauthorize: { value: 0x00000001, description: 'Remove authorization' }
+  }
+};
+
+const ACCOUNT_ROOT_FLAGS: FlagTable = {
+  lsfPasswordSpent: { value: 0x00010000, description: 'Free SetRegularKey already used' },
+  lsfRequireDestTag: { value: 0x00020000, description: 'Incoming payments need a destination tag' },
+  lsfRequireAuth: { value: 0x00040000, description: 'Trust lines to this account need authorization' },
+  lsfDisallowXRP: { value: 0x00080000, description: 'Asks senders not to send XRP' },
+  lsfDisableMaster: { value: 0x00100000, description: 'Master key is disabled' },
+  lsfNoFreeze: { value: 0x00200000, description: 'Gave up the ability to freeze trust lines' },
+  lsfGlobalFreeze: { value: 0x00400000, description: 'All issued tokens are frozen', warning: true },
+  lsfDefaultRipple: { value: 0x00800000, description: 'Rippling enabled by default on trust lines' },
+  lsfDepositAuth: { value: 0x01000000, description: 'Only preauthorized senders can deposit' },
+  lsfAMM: { value: 0x02000000, description: 'Account of an AMM pool' },
+  lsfDisallowIncomingNFTokenOffer: { value: 0x04000000, description: 'Blocks incoming NFT offers' },
+  lsfDisallowIncomingCheck: { value: 0x08000000, description: 'Blocks incoming checks' },
+  lsfDisallowIncomingPayChan: { value: 0x10000000, description: 'Blocks incoming payment channels' },
+  lsfDisallowIncomingTrustline: { value: 0x20000000, description: 'Blocks incoming trust lines' },
+  lsfAllowTrustLineClawback: { value: 0x80000000, description: 'Issuer can claw back its tokens', warning: true }
+};
+
+// NFToken flags mirror the NFTokenMint transaction flags they were minted with.
+const NFTOKEN_FLAGS: FlagTable = {
+  lsfBurnable: { value: 0x0001, description: 'Issuer may burn the token' },
+  lsfOnlyXRP: { value: 0x0002, description: 'Can only be traded for XRP' },
+  lsfTrustLine: { value: 0x0004, description: 'Auto-creates trust lines for transfer fees' },
+  lsfTransferable: { value: 0x0008, description: 'Can be transferred between holders' },
+  lsfMutable: { value: 0x0010, description: 'URI can be modified' }
+};
+
+// Values of AccountSet's SetFlag / ClearFlag fields (not a bitmask).
+const ACCOUNT_SET_FLAGS: Record<number, string> = {
+  1: 'asfRequireDest',
+  2: 'asfRequireAuth',
+  3: 'asfDisallowXRP',
+  4: 'asfDisableMaster',
+  5: 'asfAccountTxnID',
+  6: 'asfNoFreeze',
+  7: 'asfGlobalFreeze',
+  8: 'asfDefaultRipple',
+  9: 'asfDepositAuth',
+  10: 'asfAuthorizedNFTokenMinter',
+  12: 'asfDisallowIncomingNFTokenOffer',
+  13: 'asfDisallowIncomingCheck',
+  14: 'asfDisallowIncomingPayChan',
+  15: 'asfDisallowIncomingTrustline',
+  16: 'asfAllowTrustLineClawback'
+};
+
+export const PARTIAL_PAYMENT_FLAG = TX_FLAGS.Payment.tfPartialPayment.value;
+
+const decode = (flags: number | undefined, table: FlagTable): DecodedFlag[] => {
+  if (!flags) return [];
+  // `>>> 0` keeps 0x80000000 positive so the bit tests below work.
+  const bits = flags >>> 0;
+  const decoded: DecodedFlag[] = Object.entries(table)
+    .filter(([, flag]) => ((bits & flag.value) >>> 0) === flag.value)
+    .map(([name, flag]) => ({ name, ...flag }));
+
+  const known = Object.values(table).reduce((mask, flag) => (mask | flag.value) >>> 0, 0);
+  const unknown = (bits & ~known) >>> 0;
+  if (unknown) {
+    decoded.push({ name: `0x${unknown.toString(16).padStart(8, '0')}`, value: unknown, description: 'Unrecognised flag bits' });
+  }
+  return decoded;
+};
+
+export const decodeTransactionFlags = (type: string, flags: number | undefined): DecodedFlag[] =>
+  decode(flags, { ...UNIVERSAL_TX_FLAGS, ...(TX_FLAGS[type] ?? {}) });
+
+export const decodeAccountRootFlags = (flags: number | undefined): DecodedFlag[] =>
+  decode(flags, ACCOUNT_ROOT_FLAGS);
+
+export const decodeNFTokenFlags = (flags: number | undefined): DecodedFlag[] =>
+  decode(flags, NFTOKEN_FLAGS);
+
+export const getAccountSetFlagName = (value: number | string): string =>
+  ACCOUNT_SET_FLAGS[Number(value)] ?? `Unknown (${value})`;
+
+export const isPartialPayment = (type: string, flags: number | undefined): boolean =>
+  type === 'Payment' && ((Number(flags ?? 0) >>> 0) & PARTIAL_PAYMENT_FLAG) !== 0;
@@ -0,0 +1,168 @@
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { getAccountBalanceChanges } from "./balanceChanges";
+import { addDecimals, dropsToXRPDecimal, subtractDecimals } from "./decimal";
+import { compareAssetKeys, getPriceAssetKey } from "./prices";
+import { collectTransactions } from "./transactions";
+import type { NetworkId, Transaction } from "./types";
+
+const LINES_PAGE_SIZE = 400;
+
+/** Balances of every asset, keyed "XRP" or "CODE.rIssuer", as exact decimal strings. */
+export type AssetBalances = Record<string, string>;
+
+export interface BalanceHistoryPoint {
+  // Unix milliseconds.
+  time: number;
+  // The transaction that produced these balances; absent on the start and current points.
+  hash?: string;
+  // Balances right after this point.
+  balances: AssetBalances;
+  // Net change per asset caused by the transaction, fees included.
+  changes: AssetBalances;
+}
+
+export interface BalanceHistory {
+  // The validated ledger the current balances were read at.
+  ledgerIndex: number;
+  current: AssetBalances;
+  // Newest first, all at or before ledgerIndex and at or after the requested start.
+  transactions: Transaction[];
+  // Whether the history reaches back to the account's first transaction.
+  complete: boolean;
+}
+
+// Net change per asset for the account, adding the fee into the XRP total.
+const netChanges = (transaction: Transaction, account: string): AssetBalances => {
+  const changes: AssetBalances = {};
+  for (const change of getAccountBalanceChanges(transaction.balanceChanges, account)) {
+    const asset = getPriceAssetKey(change.currency, change.issuer);
+    changes[asset] = addDecimals(changes[asset] ?? "0", change.value);
+  }
+  return changes;
+};
+
+/**
+ * Rebuilds the account's balances after each transaction by walking back from
+ * the current balances and undoing each transaction's metadata deltas. Returns
+ * points oldest first: the balances before the oldest transaction at `start`
+ * (or that transaction's time), one point per transaction, and the current
+ * balances at `now`.
+ */
+export const reconstructBalanceHistory = (
+  history: Pick<BalanceHistory, "current" | "transactions">,
+  account: string,
+  { start, now = Date.now() }: { start?: number; now?: number } = {}
+): BalanceHistoryPoint[] => {
+  const running: AssetBalances = { ...history.current };
+  const points: BalanceHistoryPoint[] = [{ time: now, balances: { ...running }, changes: {} }];
+
+  for (const transaction of history.transactions) {
+    if (!transaction.closeTime) continue;
+    const changes = netChanges(transaction, account);
+    const time = new Date(transaction.closeTime).getTime();
+    points.push({ time, hash: transaction.hash, balances: { ...running }, changes });
+    for (const [asset, value] of Object.entries(changes)) {
+      running[asset] = subtractDecimals(running[asset] ?? "0", value);
+    }
+  }
+
+  const oldest = points[points.length - 1].time;
+  points.push({ time: start !== undefined && start < oldest ? start : oldest, balances: running, changes: {} });
+  return points.reverse();
+};
+
+/**
+ * The points from `start` on, led by a point at `start` carrying the balances
+ * in effect then, so a chart of a shorter range begins at the right level.
+ */
+export const sliceBalanceHistory = (points: BalanceHistoryPoint[], start?: number): BalanceHistoryPoint[] => {
+  if (start === undefined) return points;
+  const first = points.findIndex((point) => point.time >= start);
+  if (first <= 0) return points;
+  return [{ time: start, balances: points[first - 1].balances, changes: {} }, ...points.slice(first)];
+};
+
+/** Assets that ever held a balance in the history, XRP first. */
+export const getHistoryAssets = (points: BalanceHistoryPoint[]): string[] => {
+  const assets = new Set<string>();
+  for (const point of points) {
+    for (const asset of Object.keys(point.balances)) assets.add(asset);
+  }
+  return Array.from(assets).sort(compareAssetKeys);
+};
+
+/**
+ * Transactions that moved at least `share` of the asset's peak balance in the
+ * history, in either direction. Small fee-only changes never qualify.
+ */
+export const findLargeMovements = (
+  points: BalanceHistoryPoint[],
+  asset: string,
+  share = 0.1
+): BalanceHistoryPoint[] => {
+  const peak = points.reduce((max, point) => Math.max(max, Math.abs(Number(point.balances[asset] ?? 0))), 0);
+  if (peak === 0) return [];
+  return points.filter((point) => Math.abs(Number(point.changes[asset] ?? 0)) >= peak * share);
+};
+
+const fetchCurrentBalances = async (
+  address: string,
+  network: NetworkId
+): Promise<{ ledgerIndex: number; current: AssetBalances }> => {
+  const client = await getClient(network);
+  const info = await client.request({ command: "account_info", account: address, ledger_index: "validated" });
+  const ledgerIndex = info.result.ledger_index ?? info.result.ledger_current_index ?? 0;
+  const current: AssetBalances = { XRP: dropsToXRPDecimal(info.result.account_data.Balance) };
+
+  // Read at the same ledger so the balances match the history walked back from it.
+  let marker: unknown = undefined;
+  do {
+    const response = await client.request({
+      command: "account_lines",
+      account: address,
+      ledger_index: ledgerIndex,
+      limit: LINES_PAGE_SIZE,
+      ...(marker !== undefined && { marker })
+    });
+    for (const line of response.result.lines) {
+      current[getPriceAssetKey(line.currency, line.account)] = line.balance;
+    }
+    marker = response.result.marker;
+  } while (marker !== undefined && marker !== null);
+
+  return { ledgerIndex, current };
+};
+
+/**
+ * Reads the account's current balances at the latest validated ledger, then
+ * its history newest first back to `since` (or the whole history). Throws if a
+ * request fails, since a gap would skew every earlier balance.
+ */
+export const fetchBalanceHistory = async (
+  address: string,
+  since?: Date,
+  network: NetworkId = DEFAULT_NETWORK,
+  onProgress?: (scanned: number) => void,
+  signal?: AbortSignal
+): Promise<BalanceHistory> => {
+  let ledgerIndex: number;
+  let current: AssetBalances;
+  try {
+    ({ ledgerIndex, current } = await fetchCurrentBalances(address, network));
+  } catch (error) {
+    // An unfunded account has no balances and no history.
+    if ((error as { data?: { error?: string } })?.data?.error === "actNotFound") {
+      return { ledgerIndex: 0, current: {}, transactions: [], complete: true };
+    }
+    throw error;
+  }
+  const { transactions, complete } = await collectTransactions(
+    address,
+    { since, ledgerIndexMax: ledgerIndex },
+    network,
+    onProgress,
+    signal
+  );
+  return { ledgerIndex, current, transactions, complete };
+};
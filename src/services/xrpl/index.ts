@@ -1,5 +1,27 @@
 
 export * from './types';
 export * from './utils';
+export * from './amount';
+export * from './decimal';
+export * from './balanceChanges';
+export * from './flags';
+export * from './networks';
+export * from './connection';
+export * from './subscriptions';
 export * from './transactions';
+export * from './export';
+export * from './prices';
+export * from './tax';
+export * from './history';
+export * from './analytics';
+export * from './ledger';
+export * from './tracking';
 export * from './balance';
+export * from './reserves';
+export * from './objects';
+export * from './trustlines';
+export * from './offers';
+export * from './nfts';
+export * from './dex';
+export * from './amm';
+export * from './search';
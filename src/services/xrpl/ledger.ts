@@ -0,0 +1,90 @@
+import { toast } from "sonner";
+import type { LedgerRequest } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { dropsToXRPDecimal } from "./decimal";
+import { formatXRPAmount, formatXRPLDate } from "./utils";
+import type { LedgerDetail, LedgerTransaction, NetworkId } from "./types";
+
+const LEDGER_HASH_PATTERN = /^[0-9A-F]{64}$/i;
+
+// With `expand: true` API v2 nests each transaction as { hash, tx_json, meta }; v1 returns it flat.
+const toLedgerTransaction = (entry: Record<string, unknown>): LedgerTransaction => {
+  const txJson = (entry.tx_json ?? entry) as Record<string, unknown>;
+  const meta = (entry.meta ?? entry.metaData) as { TransactionResult?: string; TransactionIndex?: number } | undefined;
+  return {
+    hash: String(entry.hash ?? txJson.hash),
+    type: String(txJson.TransactionType ?? "Unknown"),
+    account: String(txJson.Account ?? ""),
+    destination: txJson.Destination as string | undefined,
+    result: meta?.TransactionResult ?? "unknown",
+    fee: formatXRPAmount(txJson.Fee as string),
+    transactionIndex: meta?.TransactionIndex
+  };
+};
+
+/**
+ * Fetches a ledger by sequence number or hash together with its expanded
+ * transactions. Returns null when the server does not have the ledger.
+ */
+export const fetchLedger = async (
+  ledger: number | string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<LedgerDetail | null> => {
+  try {
+    const client = await getClient(network);
+    console.log(`[XRPL] Fetching ${network} ledger:`, ledger);
+
+    const selector: Pick<LedgerRequest, "ledger_index" | "ledger_hash"> =
+      typeof ledger === "string" && LEDGER_HASH_PATTERN.test(ledger)
+        ? { ledger_hash: ledger.toUpperCase() }
+        : { ledger_index: Number(ledger) };
+    const response = await client.request({
+      command: "ledger",
+      ...selector,
+      transactions: true,
+      expand: true
+    });
+
+    const header = response.result.ledger as unknown as Record<string, unknown>;
+    const transactions = ((header.transactions ?? []) as Record<string, unknown>[])
+      .map(toLedgerTransaction)
+      .sort((a, b) => (a.transactionIndex ?? 0) - (b.transactionIndex ?? 0));
+
+    const counts = new Map<string, number>();
+    for (const tx of transactions) {
+      counts.set(tx.type, (counts.get(tx.type) ?? 0) + 1);
+    }
+
+    return {
+      index: Number(header.ledger_index),
+      hash: String(header.ledger_hash),
+      parentHash: String(header.parent_hash),
+      closeTime: header.close_time_iso
+        ? new Date(String(header.close_time_iso)).toLocaleString()
+        : formatXRPLDate(Number(header.close_time)),
+      closeTimeResolution: header.close_time_resolution as number | undefined,
+      totalCoins: `${dropsToXRPDecimal(String(header.total_coins))} XRP`,
+      validated: Boolean(response.result.validated),
+      transactionCount: transactions.length,
+      typeBreakdown: Array.from(counts.entries())
+        .map(([type, count]) => ({ type, count }))
+        .sort((a, b) => b.count - a.count),
+      transactions
+    };
+  } catch (error) {
+    const code = (error as { data?: { error?: string } })?.data?.error;
+    if (code === "lgrNotFound") {
+      return null;
+    }
+    console.error("Error fetching ledger:", error);
+    toast.error("Failed to fetch ledger");
+    return null;
+  }
+};
+
+// Sequence of the most recent validated ledger, e.g. to know whether a "next" ledger exists yet.
+export const fetchValidatedLedgerIndex = async (network: NetworkId = DEFAULT_NETWORK): Promise<number> => {
+  const client = await getClient(network);
+  return client.getLedgerIndex();
+};
@@ -0,0 +1,68 @@
+import { XRPL_SERVERS, TESTNET_SERVERS, DEVNET_SERVERS, DEFAULT_CUSTOM_ENDPOINT } from './config';
+import type { NetworkId, XRPLNetwork } from './types';
+
+export const DEFAULT_NETWORK: NetworkId = 'mainnet';
+
+const CUSTOM_ENDPOINT_KEY = 'xrpl_custom_endpoint';
+
+export const NETWORKS: Record<Exclude<NetworkId, 'custom'>, XRPLNetwork> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Mainnet',
+    servers: XRPL_SERVERS,
+    explorerLabel: 'XRPL Mainnet',
+    hasFaucet: false
+  },
+  testnet: {
+    id: 'testnet',
+    name: 'Testnet',
+    servers: TESTNET_SERVERS,
+    explorerLabel: 'XRPL Testnet',
+    hasFaucet: true,
+    faucetUrl: 'https://xrpl.org/resources/dev-tools/xrp-faucets'
+  },
+  devnet: {
+    id: 'devnet',
+    name: 'Devnet',
+    servers: DEVNET_SERVERS,
+    explorerLabel: 'XRPL Devnet',
+    hasFaucet: true,
+    faucetUrl: 'https://xrpl.org/resources/dev-tools/xrp-faucets'
+  }
+};
+
+export const NETWORK_IDS: NetworkId[] = ['mainnet', 'testnet', 'devnet', 'custom'];
+
+export const isNetworkId = (value: string | undefined): value is NetworkId =>
+  value !== undefined && (NETWORK_IDS as string[]).includes(value);
+
+export const isValidEndpointUrl = (url: string): boolean => /^wss?:\/\/[^\s/]+/.test(url.trim());
+
+export const getCustomEndpoint = (): string =>
+  localStorage.getItem(CUSTOM_ENDPOINT_KEY) || DEFAULT_CUSTOM_ENDPOINT;
+
+export const setCustomEndpoint = (url: string): void => {
+  localStorage.setItem(CUSTOM_ENDPOINT_KEY, url.trim());
+};
+
+export const getNetwork = (id: NetworkId = DEFAULT_NETWORK): XRPLNetwork => {
+  if (id === 'custom') {
+    const endpoint = getCustomEndpoint();
+    return {
+      id: 'custom',
+      name: 'Custom',
+      servers: [endpoint],
+      explorerLabel: `Custom (${endpoint})`,
+      hasFaucet: false
+    };
+  }
+  return NETWORKS[id] ?? NETWORKS[DEFAULT_NETWORK];
+};
+
+// Session cache keys are prefixed per network so a testnet hash never serves mainnet data.
+export const networkCacheKey = (network: NetworkId, key: string): string =>
+  network === 'custom' ? `custom:${getCustomEndpoint()}:${key}` : `${network}:${key}`;
+
+// Mainnet keeps the original unprefixed routes; other networks live under /:network.
+export const networkPath = (network: NetworkId, path: string): string =>
+  network === DEFAULT_NETWORK ? path : `/${network}${path === '/' ? '' : path}`;
@@ -0,0 +1,272 @@
+import { toast } from "sonner";
+import { parseNFTokenID, type NFTSellOffersRequest, type NFTSellOffersResponse } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_IPFS_GATEWAY } from "./config";
+import { DEFAULT_NETWORK } from "./networks";
+import { parseAmount } from "./amount";
+import { formatXRPLDate, hexToAscii } from "./utils";
+import type { NetworkId, NFTHistory, NFTHistoryEntry, NFTMetadata, NFToken, NFTOffer } from "./types";
+
+const NFTS_PAGE_SIZE = 400;
+const HISTORY_PAGE_SIZE = 100;
+// Long-lived NFTs can have thousands of entries; the rest is reported as hasMore.
+const MAX_HISTORY_PAGES = 10;
+const IPFS_GATEWAY_KEY = "xrpl_ipfs_gateway";
+// Bare IPFS content IDs: CIDv0 (Qm…) and base32 CIDv1 (baf…).
+const BARE_CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|baf[a-z2-7]{50,})(\/.*)?$/;
+const SAFE_LINK_PROTOCOLS = ["http:", "https:"];
+
+const metadataCache = new Map<string, Promise<NFTMetadata | null>>();
+
+const errorCode = (error: unknown) => (error as { data?: { error?: string } })?.data?.error;
+
+// What rippled answers for Clio-only commands such as nft_info and nft_history.
+const isUnsupportedCommand = (error: unknown) => ["unknownCmd", "notSupported"].includes(errorCode(error) ?? "");
+
+export const getIpfsGateway = (): string => localStorage.getItem(IPFS_GATEWAY_KEY) || DEFAULT_IPFS_GATEWAY;
+
+export const setIpfsGateway = (url: string): void => {
+  const trimmed = url.trim();
+  if (trimmed) {
+    localStorage.setItem(IPFS_GATEWAY_KEY, trimmed.endsWith("/") ? trimmed : `${trimmed}/`);
+  } else {
+    localStorage.removeItem(IPFS_GATEWAY_KEY);
+  }
+  metadataCache.clear();
+};
+
+const rewriteNFTUri = (uri: string): string => {
+  if (uri.startsWith("ipfs://")) {
+    return `${getIpfsGateway()}${uri.slice("ipfs://".length).replace(/^ipfs\//, "")}`;
+  }
+  if (uri.startsWith("ar://")) {
+    return `https://arweave.net/${uri.slice("ar://".length)}`;
+  }
+  if (BARE_CID_PATTERN.test(uri)) {
+    return `${getIpfsGateway()}${uri}`;
+  }
+  return uri;
+};
+
+/**
+ * Turns an NFT URI into something a browser can load: ipfs:// links and bare
+ * CIDs go through the configured gateway, ar:// through arweave.net. Anyone
+ * can set the URI, so only http(s) results are returned; javascript:, data:
+ * and other schemes give undefined and must not be rendered as links.
+ */
+export const resolveNFTUri = (uri: string): string | undefined => {
+  const resolved = rewriteNFTUri(uri.trim());
+  try {
+    return SAFE_LINK_PROTOCOLS.includes(new URL(resolved).protocol) ? resolved : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Inline data: URIs are fine to fetch or show as an image, never as a link.
+const resolveNFTMediaUri = (uri: string, mediaType: RegExp): string | undefined => {
+  const trimmed = uri.trim();
+  return mediaType.test(trimmed) ? trimmed : resolveNFTUri(trimmed);
+};
+
+// Everything but the owner is encoded in the NFToken ID itself.
+export const decodeNFTokenID = (id: string, uri?: string): NFToken => {
+  const parsed = parseNFTokenID(id.toUpperCase());
+  return {
+    id: parsed.NFTokenID,
+    flags: parsed.Flags,
+    transferFee: parsed.TransferFee,
+    issuer: parsed.Issuer,
+    taxon: parsed.Taxon,
+    serial: parsed.Sequence,
+    uri: uri ? hexToAscii(uri) : undefined
+  };
+};
+
+export const fetchAccountNFTs = async (
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<NFToken[]> => {
+  try {
+    const client = await getClient(network);
+    console.log(`[XRPL] Fetching ${network} NFTs for address:`, address);
+
+    const nfts: NFToken[] = [];
+    let marker: unknown = undefined;
+    do {
+      const response = await client.request({
+        command: "account_nfts",
+        account: address,
+        ledger_index: "validated",
+        limit: NFTS_PAGE_SIZE,
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const nft of response.result.account_nfts) {
+        nfts.push({ ...decodeNFTokenID(nft.NFTokenID, nft.URI), owner: address });
+      }
+      marker = response.result.marker;
+    } while (marker !== undefined && marker !== null);
+
+    return nfts;
+  } catch (error) {
+    if (errorCode(error) === "actNotFound") {
+      return [];
+    }
+    console.error("[XRPL] Error fetching NFTs:", error);
+    toast.error("Failed to fetch NFTs");
+    return [];
+  }
+};
+
+const loadMetadata = async (uri: string): Promise<NFTMetadata | null> => {
+  const url = resolveNFTMediaUri(uri, /^data:/);
+  if (!url) return null;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Metadata request failed with status ${response.status}`);
+  }
+  // Some collections point the URI straight at the image.
+  if (response.headers.get("content-type")?.startsWith("image/")) {
+    return { image: url };
+  }
+
+  const json = (await response.json()) as Record<string, unknown>;
+  const image = (json.image ?? json.image_url ?? json.animation_url) as string | undefined;
+  return {
+    name: json.name as string | undefined,
+    description: json.description as string | undefined,
+    image: image ? resolveNFTMediaUri(image, /^data:image\//) : undefined,
+    attributes: Array.isArray(json.attributes) ? json.attributes : undefined
+  };
+};
+
+/**
+ * Fetches and caches the metadata an NFT's URI points to. Returns null for
+ * URIs that are not fetchable or do not serve JSON or an image.
+ */
+export const fetchNFTMetadata = (uri: string): Promise<NFTMetadata | null> => {
+  let cached = metadataCache.get(uri);
+  if (!cached) {
+    cached = loadMetadata(uri).catch((error) => {
+      console.warn(`[XRPL] Could not load NFT metadata from ${uri}:`, error);
+      return null;
+    });
+    metadataCache.set(uri, cached);
+  }
+  return cached;
+};
+
+/**
+ * Looks up an NFT with nft_info, which only Clio servers implement. On other
+ * servers, or when the NFT is not found, the fields encoded in the ID are still
+ * returned, without owner/URI. Other failures are thrown.
+ */
+export const fetchNFTInfo = async (id: string, network: NetworkId = DEFAULT_NETWORK): Promise<NFToken> => {
+  const decoded = decodeNFTokenID(id);
+  try {
+    const client = await getClient(network);
+    const response = await client.request({ command: "nft_info", nft_id: decoded.id });
+    return {
+      ...decoded,
+      uri: response.result.uri ? hexToAscii(response.result.uri) : undefined,
+      owner: response.result.owner,
+      isBurned: response.result.is_burned
+    };
+  } catch (error) {
+    if (errorCode(error) !== "objectNotFound" && !isUnsupportedCommand(error)) throw error;
+    console.warn("[XRPL] nft_info unavailable, using the fields encoded in the ID:", error);
+    return decoded;
+  }
+};
+
+export const fetchNFTOffers = async (id: string, network: NetworkId = DEFAULT_NETWORK): Promise<NFTOffer[]> => {
+  const client = await getClient(network);
+  const sides = [
+    ["nft_sell_offers", true],
+    ["nft_buy_offers", false]
+  ] as const;
+
+  const results = await Promise.all(
+    sides.map(async ([command, isSellOffer]) => {
+      try {
+        // Both commands return the same shape.
+        const response: NFTSellOffersResponse = await client.request({
+          command: command as NFTSellOffersRequest["command"],
+          nft_id: id.toUpperCase()
+        });
+        return response.result.offers.map((offer): NFTOffer => ({
+          index: offer.nft_offer_index,
+          amount: parseAmount(offer.amount),
+          owner: offer.owner,
+          destination: offer.destination,
+          expiration: offer.expiration,
+          isSellOffer
+        }));
+      } catch (error) {
+        // objectNotFound just means there are no offers on this side.
+        if (errorCode(error) !== "objectNotFound") {
+          console.error(`[XRPL] Error fetching ${command}:`, error);
+        }
+        return [];
+      }
+    })
+  );
+  return results.flat();
+};
+
+const toHistoryEntry = (entry: unknown): NFTHistoryEntry => {
+  const raw = entry as Record<string, unknown>;
+  // API v2 nests the transaction under tx_json; v1 under tx.
+  const txJson = (raw.tx_json ?? raw.tx ?? {}) as Record<string, unknown>;
+  const meta = (typeof raw.meta === "object" ? raw.meta : undefined) as { TransactionResult?: string } | undefined;
+  return {
+    hash: String(raw.hash ?? txJson.hash),
+    type: String(txJson.TransactionType),
+    account: String(txJson.Account),
+    destination: (txJson.Destination ?? txJson.Owner) as string | undefined,
+    ledgerIndex: Number(raw.ledger_index),
+    date: raw.close_time_iso
+      ? new Date(String(raw.close_time_iso)).toLocaleString()
+      : formatXRPLDate(Number(txJson.date)),
+    result: meta?.TransactionResult ?? "unknown"
+  };
+};
+
+/**
+ * Transfer history via nft_history, following markers for up to
+ * MAX_HISTORY_PAGES pages. Returns null when the server does not support it
+ * (rippled without Clio), so callers can say so instead of showing an empty
+ * history; other failures are thrown.
+ */
+export const fetchNFTHistory = async (
+  id: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<NFTHistory | null> => {
+  try {
+    const client = await getClient(network);
+    const entries: NFTHistoryEntry[] = [];
+    let marker: unknown = undefined;
+    let pages = 0;
+    do {
+      const response = await client.request({
+        command: "nft_history",
+        nft_id: id.toUpperCase(),
+        limit: HISTORY_PAGE_SIZE,
+        ...(marker !== undefined && { marker })
+      });
+      entries.push(...response.result.transactions.map(toHistoryEntry));
+      marker = response.result.marker;
+      pages += 1;
+    } while (marker !== undefined && marker !== null && pages < MAX_HISTORY_PAGES);
+
+    return { entries, hasMore: marker !== undefined && marker !== null };
+  } catch (error) {
+    // Clio answers objectNotFound for an NFT it has never seen.
+    if (errorCode(error) === "objectNotFound") return { entries: [], hasMore: false };
+    if (!isUnsupportedCommand(error)) throw error;
+    console.warn("[XRPL] nft_history unavailable:", error);
+    return null;
+  }
+};
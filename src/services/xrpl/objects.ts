@@ -0,0 +1,338 @@
+import { toast } from "sonner";
+import type { AccountObjectType } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { decodeCurrencyCode, formatAmount, requireAmount } from "./amount";
+import { compareDecimals, isZeroDecimal, negateDecimal } from "./decimal";
+import { formatXRPLDate, hasRippleTimePassed, hexToAscii, shortenAddress } from "./utils";
+import type {
+  CheckObject,
+  EscrowObject,
+  LedgerObject,
+  NetworkId,
+  PaymentChannelObject,
+  PaymentObjects,
+  ReserveSuggestion,
+  Transaction,
+  XRPLTransactionMeta
+} from "./types";
+
+const OBJECTS_PAGE_SIZE = 400;
+
+// RippleState flags marking which side of a trust line pays its reserve.
+const LSF_LOW_RESERVE = 0x00010000;
+const LSF_HIGH_RESERVE = 0x00020000;
+// SignerList created after MultiSignReserve costs one owner count regardless of size.
+const LSF_ONE_OWNER_COUNT = 0x00010000;
+const ORACLE_SERIES_PER_OWNER_COUNT = 5;
+const LSF_SELL_NFTOKEN = 0x00000001;
+
+// Display names for owned ledger entry types.
+export const LEDGER_OBJECT_LABELS: Record<string, string> = {
+  RippleState: "Trust lines",
+  Offer: "DEX offers",
+  Escrow: "Escrows",
+  Check: "Checks",
+  PayChannel: "Payment channels",
+  Ticket: "Tickets",
+  SignerList: "Signer list",
+  NFTokenPage: "NFT pages",
+  NFTokenOffer: "NFT offers",
+  DepositPreauth: "Deposit preauthorizations",
+  DID: "DID",
+  Oracle: "Price oracles",
+  MPToken: "MPT holdings",
+  MPTokenIssuance: "MPT issuances",
+  Credential: "Credentials",
+  Other: "Other"
+};
+
+/**
+ * Pages through account_objects, stopping after `maxPages` pages if given.
+ * Unlike fetchAccountObjects this throws on failure, so callers can tell an
+ * error from an account that owns nothing.
+ */
+export const listAccountObjects = async (
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK,
+  { type, maxPages }: { type?: AccountObjectType; maxPages?: number } = {}
+): Promise<{ objects: LedgerObject[]; complete: boolean }> => {
+  const client = await getClient(network);
+  console.log(`[XRPL] Fetching ${network} account objects for address:`, address, type ?? "all");
+
+  const objects: LedgerObject[] = [];
+  let marker: unknown = undefined;
+  let pages = 0;
+  do {
+    const response = await client.request({
+      command: "account_objects",
+      account: address,
+      ledger_index: "validated",
+      limit: OBJECTS_PAGE_SIZE,
+      ...(type && { type }),
+      ...(marker !== undefined && { marker })
+    });
+    objects.push(...(response.result.account_objects as unknown as LedgerObject[]));
+    marker = response.result.marker;
+    pages += 1;
+  } while (marker !== undefined && marker !== null && (maxPages === undefined || pages < maxPages));
+
+  console.log(`[XRPL] Loaded ${objects.length} account objects for ${address}`);
+  return { objects, complete: marker === undefined || marker === null };
+};
+
+export const fetchAccountObjects = async (
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK,
+  type?: AccountObjectType
+): Promise<LedgerObject[]> => {
+  try {
+    return (await listAccountObjects(address, network, { type })).objects;
+  } catch (error) {
+    if ((error as { data?: { error?: string } })?.data?.error === "actNotFound") {
+      return [];
+    }
+    console.error("[XRPL] Error fetching account objects:", error);
+    toast.error("Failed to fetch account objects");
+    return [];
+  }
+};
+
+/**
+ * How many units of OwnerCount an object costs the given account. Objects in
+ * an owner directory are not always charged to that owner: trust lines only
+ * count for the side whose reserve flag is set.
+ */
+export const getOwnerCountContribution = (object: LedgerObject, account: string): number => {
+  const flags = Number(object.Flags ?? 0);
+  switch (object.LedgerEntryType) {
+    case "RippleState": {
+      const low = (object.LowLimit as { issuer?: string } | undefined)?.issuer;
+      const high = (object.HighLimit as { issuer?: string } | undefined)?.issuer;
+      if (low === account) return flags & LSF_LOW_RESERVE ? 1 : 0;
+      if (high === account) return flags & LSF_HIGH_RESERVE ? 1 : 0;
+      return 0;
+    }
+    case "SignerList": {
+      if (flags & LSF_ONE_OWNER_COUNT) return 1;
+      const entries = Array.isArray(object.SignerEntries) ? object.SignerEntries.length : 0;
+      return 2 + entries;
+    }
+    case "Oracle": {
+      const series = Array.isArray(object.PriceDataSeries) ? object.PriceDataSeries.length : 0;
+      return series > ORACLE_SERIES_PER_OWNER_COUNT ? 2 : 1;
+    }
+    case "Escrow":
+    case "Check":
+    case "PayChannel":
+    case "NFTokenOffer":
+      // These sit in both parties' directories but only the creator pays.
+      return object.Account === account || object.Owner === account ? 1 : 0;
+    default:
+      return 1;
+  }
+};
+
+const optionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null ? undefined : Number(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value !== "" ? value : undefined;
+
+// Escrows, checks and channels always carry their amounts; the fallback only satisfies the types.
+const toEscrow = (object: LedgerObject): EscrowObject => ({
+  index: object.index,
+  account: String(object.Account),
+  destination: String(object.Destination),
+  amount: requireAmount(object.Amount),
+  finishAfter: optionalNumber(object.FinishAfter),
+  cancelAfter: optionalNumber(object.CancelAfter),
+  condition: optionalString(object.Condition),
+  destinationTag: optionalNumber(object.DestinationTag),
+  previousTxnId: String(object.PreviousTxnID)
+});
+
+const toCheck = (object: LedgerObject): CheckObject => ({
+  index: object.index,
+  account: String(object.Account),
+  destination: String(object.Destination),
+  sendMax: requireAmount(object.SendMax),
+  expiration: optionalNumber(object.Expiration),
+  invoiceId: optionalString(object.InvoiceID),
+  destinationTag: optionalNumber(object.DestinationTag),
+  previousTxnId: String(object.PreviousTxnID)
+});
+
+const toPaymentChannel = (object: LedgerObject): PaymentChannelObject => ({
+  index: object.index,
+  account: String(object.Account),
+  destination: String(object.Destination),
+  amount: requireAmount(object.Amount),
+  balance: requireAmount(object.Balance),
+  settleDelay: Number(object.SettleDelay ?? 0),
+  publicKey: String(object.PublicKey ?? ""),
+  expiration: optionalNumber(object.Expiration),
+  cancelAfter: optionalNumber(object.CancelAfter),
+  destinationTag: optionalNumber(object.DestinationTag),
+  previousTxnId: String(object.PreviousTxnID)
+});
+
+/**
+ * Escrows, checks and payment channels the account sends or receives. They
+ * sit in both parties' owner directories, so one account_objects walk finds
+ * the incoming ones as well.
+ */
+export const fetchPaymentObjects = async (
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<PaymentObjects> => {
+  const objects = await fetchAccountObjects(address, network);
+  const ofType = (type: string) => objects.filter((object) => object.LedgerEntryType === type);
+  return {
+    escrows: ofType("Escrow").map(toEscrow),
+    checks: ofType("Check").map(toCheck),
+    channels: ofType("PayChannel").map(toPaymentChannel)
+  };
+};
+
+export const getCreatedLedgerObjects = (meta?: XRPLTransactionMeta): string[] =>
+  (meta?.AffectedNodes ?? []).flatMap((node) => (node.CreatedNode ? [node.CreatedNode.LedgerIndex] : []));
+
+// Searches the loaded history for the transaction that created a ledger entry.
+export const findCreatingTransaction = (transactions: Transaction[], index: string): Transaction | undefined =>
+  transactions.find((transaction) => transaction.createdObjects?.includes(index));
+
+interface TrustLineSide {
+  currency: string;
+  counterparty: string;
+  // Signed from the account's point of view: positive means it holds tokens.
+  balance: string;
+  limit: string;
+}
+
+// RippleState stores both sides; Balance is from the low account's point of view.
+const getTrustLineSide = (object: LedgerObject, account: string): TrustLineSide => {
+  const low = (object.LowLimit ?? {}) as { currency?: string; issuer?: string; value?: string };
+  const high = (object.HighLimit ?? {}) as { currency?: string; issuer?: string; value?: string };
+  const balance = String((object.Balance as { value?: string } | undefined)?.value ?? "0");
+  const isLow = low.issuer === account;
+  const own = isLow ? low : high;
+  return {
+    currency: decodeCurrencyCode(String(own.currency ?? "")),
+    counterparty: String((isLow ? high : low).issuer ?? ""),
+    balance: isLow ? balance : negateDecimal(balance),
+    limit: String(own.value ?? "0")
+  };
+};
+
+const listLength = (value: unknown): number => (Array.isArray(value) ? value.length : 0);
+
+/** A one-line description of an owned object, for inventories. */
+export const describeLedgerObject = (object: LedgerObject, account: string): string => {
+  switch (object.LedgerEntryType) {
+    case "RippleState": {
+      const line = getTrustLineSide(object, account);
+      return `${line.currency} with ${shortenAddress(line.counterparty)}, balance ${line.balance}, limit ${line.limit}`;
+    }
+    case "Offer":
+      return `Selling ${formatAmount(requireAmount(object.TakerGets))} for ${formatAmount(requireAmount(object.TakerPays))}`;
+    case "Escrow":
+      return `${formatAmount(requireAmount(object.Amount))} to ${shortenAddress(String(object.Destination))}`;
+    case "Check":
+      return `Up to ${formatAmount(requireAmount(object.SendMax))} to ${shortenAddress(String(object.Destination))}`;
+    case "PayChannel":
+      return `Channel to ${shortenAddress(String(object.Destination))}, ${formatAmount(requireAmount(object.Amount))} funded`;
+    case "Ticket":
+      return `Ticket #${object.TicketSequence}`;
+    case "SignerList":
+      return `${listLength(object.SignerEntries)} signers, quorum ${object.SignerQuorum}`;
+    case "NFTokenPage":
+      return `Page holding ${listLength(object.NFTokens)} NFTs`;
+    case "NFTokenOffer": {
+      const side = Number(object.Flags ?? 0) & LSF_SELL_NFTOKEN ? "Sell" : "Buy";
+      return `${side} offer for ${shortenAddress(String(object.NFTokenID))} at ${formatAmount(requireAmount(object.Amount))}`;
+    }
+    case "DepositPreauth":
+      return object.Authorize
+        ? `Preauthorizes ${shortenAddress(String(object.Authorize))}`
+        : `Preauthorizes ${listLength(object.AuthorizeCredentials)} credential types`;
+    case "DID":
+      return "Decentralized identifier document";
+    case "Oracle": {
+      const provider = typeof object.Provider === "string" ? hexToAscii(object.Provider) : "Unknown provider";
+      return `${provider}, ${listLength(object.PriceDataSeries)} price pairs`;
+    }
+    default:
+      return LEDGER_OBJECT_LABELS[object.LedgerEntryType] ?? object.LedgerEntryType;
+  }
+};
+
+const ready = (transaction: string, description: string): ReserveSuggestion => ({ transaction, description, ready: true });
+const blocked = (transaction: string, description: string): ReserveSuggestion => ({ transaction, description, ready: false });
+
+/**
+ * How the owner could delete an object to get its reserve back. Only covers
+ * objects the owner can remove on its own; returns undefined otherwise.
+ */
+export const getReserveSuggestion = (
+  object: LedgerObject,
+  account: string,
+  now = Date.now()
+): ReserveSuggestion | undefined => {
+  switch (object.LedgerEntryType) {
+    case "RippleState": {
+      const line = getTrustLineSide(object, account);
+      // A line is only deleted once it is back in its default state on the owner's side.
+      return isZeroDecimal(line.balance)
+        ? ready("TrustSet", `Set the ${line.currency} limit to 0; NoRipple and freeze flags must match the account's defaults.`)
+        : blocked("TrustSet", `Send back or sell the ${line.balance} ${line.currency} first, then set the limit to 0.`);
+    }
+    case "Offer":
+      return ready("OfferCancel", "Cancel the offer; its funds were never locked.");
+    case "Escrow": {
+      const cancelAfter = object.CancelAfter === undefined ? undefined : Number(object.CancelAfter);
+      const finishAfter = object.FinishAfter === undefined ? undefined : Number(object.FinishAfter);
+      if (cancelAfter !== undefined && hasRippleTimePassed(cancelAfter, now)) {
+        return ready("EscrowCancel", "Cancel the escrow to return the funds to this account.");
+      }
+      if (finishAfter !== undefined && hasRippleTimePassed(finishAfter, now) && !object.Condition) {
+        return ready("EscrowFinish", "Finish the escrow to deliver the funds to the destination.");
+      }
+      if (cancelAfter !== undefined) {
+        return blocked("EscrowCancel", `Can be cancelled after ${formatXRPLDate(cancelAfter)}.`);
+      }
+      return !object.Condition && finishAfter !== undefined
+        ? blocked("EscrowFinish", `Can be finished after ${formatXRPLDate(finishAfter)}.`)
+        : blocked("EscrowFinish", "Has no cancel time; it is removed only when the destination's condition is fulfilled.");
+    }
+    case "Check":
+      return ready("CheckCancel", "Cancel the check; the destination can no longer cash it.");
+    case "PayChannel": {
+      const expired = object.Expiration !== undefined && hasRippleTimePassed(Number(object.Expiration), now);
+      // With XRP left to claim, tfClose only starts the settle delay instead of closing it.
+      const unclaimed = compareDecimals(String(object.Amount ?? "0"), String(object.Balance ?? "0")) > 0;
+      return expired || !unclaimed
+        ? ready("PaymentChannelClaim", "Close the channel with tfClose.")
+        : blocked(
+            "PaymentChannelClaim",
+            `Holds unclaimed XRP; tfClose closes it only after the ${object.SettleDelay}-second settle delay.`
+          );
+    }
+    case "Ticket":
+      return ready("AccountSet", `Use the ticket by sending any transaction, e.g. an empty AccountSet, with TicketSequence ${object.TicketSequence}.`);
+    case "SignerList":
+      return ready("SignerListSet", "Delete with SignerQuorum 0, but only if the master key or a regular key can still sign.");
+    case "NFTokenPage":
+      return blocked("NFTokenBurn", "Freed once every NFT on the page is burned or transferred.");
+    case "NFTokenOffer":
+      return ready("NFTokenCancelOffer", "Cancel the NFT offer.");
+    case "DepositPreauth":
+      return ready("DepositPreauth", "Remove the preauthorization with Unauthorize.");
+    case "DID":
+      return ready("DIDDelete", "Delete the DID.");
+    case "Oracle":
+      return ready("OracleDelete", `Delete oracle document ${object.OracleDocumentID}.`);
+    default:
+      return undefined;
+  }
+};
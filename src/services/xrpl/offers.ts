@@ -0,0 +1,195 @@
+import { toast } from "sonner";
+import { getClient } from "./connection";
+import { hasRippleTimePassed } from "./utils";
+import { DEFAULT_NETWORK } from "./networks";
+import { amountValue, parseAmount, sumAmounts } from "./amount";
+import { isZeroDecimal, subtractDecimals } from "./decimal";
+import type {
+  AccountOffer,
+  AffectedNodeBody,
+  Amount,
+  NetworkId,
+  OfferChange,
+  OfferHistoryEntry,
+  Transaction,
+  XRPLTransactionMeta
+} from "./types";
+
+const OFFERS_PAGE_SIZE = 400;
+
+type RawAmount = Parameters<typeof parseAmount>[0];
+
+const amountDelta = (previous: RawAmount, final: RawAmount): Amount | undefined => {
+  const before = parseAmount(previous);
+  const after = parseAmount(final);
+  if (!before || !after) return undefined;
+  if (before.kind === "xrp" && after.kind === "xrp") {
+    return { kind: "xrp", drops: subtractDecimals(before.drops, after.drops) };
+  }
+  if (before.kind === "iou" && after.kind === "iou") {
+    return { ...before, value: subtractDecimals(before.value, after.value) };
+  }
+  return undefined;
+};
+
+const isEmptyAmount = (amount: RawAmount): boolean => {
+  const parsed = parseAmount(amount);
+  return !parsed || isZeroDecimal(parsed.kind === "xrp" ? parsed.drops : parsed.value);
+};
+
+const offerChange = (
+  body: AffectedNodeBody,
+  kind: "created" | "modified" | "deleted",
+  txJson: Record<string, unknown>
+): OfferChange | null => {
+  const fields = kind === "created" ? body.NewFields : body.FinalFields;
+  const owner = fields?.Account as string | undefined;
+  const sequence = fields?.Sequence as number | undefined;
+  if (!owner || sequence === undefined) return null;
+
+  if (kind === "created") {
+    return { owner, sequence, kind: "created" };
+  }
+
+  const previous = body.PreviousFields;
+  if (previous?.TakerGets !== undefined && previous.TakerPays !== undefined) {
+    const filledAway = kind === "deleted" && isEmptyAmount(fields?.TakerGets as RawAmount);
+    return {
+      owner,
+      sequence,
+      kind: filledAway ? "filled" : kind === "deleted" ? "removed" : "partiallyFilled",
+      sold: amountDelta(previous.TakerGets as RawAmount, fields?.TakerGets as RawAmount),
+      bought: amountDelta(previous.TakerPays as RawAmount, fields?.TakerPays as RawAmount)
+    };
+  }
+
+  if (kind !== "deleted") return null;
+  // OfferCancel, or an OfferCreate replacing the offer via OfferSequence.
+  const cancelledByOwner = txJson.Account === owner && txJson.OfferSequence === sequence;
+  // Otherwise the offer was found unfunded or expired while another offer crossed the book.
+  return { owner, sequence, kind: cancelledByOwner ? "cancelled" : "removed" };
+};
+
+// Expired offers stay in the ledger until a crossing or their owner removes them.
+export const isOfferExpired = (offer: AccountOffer, now = Date.now()): boolean =>
+  offer.expiration !== undefined && hasRippleTimePassed(offer.expiration, now);
+
+/**
+ * What a transaction did to each Offer entry it touched: placed, partly or
+ * fully consumed, cancelled by its owner, or removed by the ledger because it
+ * had expired or was no longer funded.
+ */
+export const getTransactionOfferChanges = (
+  txJson: Record<string, unknown>,
+  meta: XRPLTransactionMeta | string | undefined
+): OfferChange[] => {
+  if (!meta || typeof meta === "string" || !Array.isArray(meta.AffectedNodes)) {
+    return [];
+  }
+
+  const changes: OfferChange[] = [];
+  for (const node of meta.AffectedNodes) {
+    const entry = node.CreatedNode
+      ? { body: node.CreatedNode, kind: "created" as const }
+      : node.ModifiedNode
+        ? { body: node.ModifiedNode, kind: "modified" as const }
+        : node.DeletedNode
+          ? { body: node.DeletedNode, kind: "deleted" as const }
+          : null;
+    if (entry?.body.LedgerEntryType !== "Offer") continue;
+    const change = offerChange(entry.body, entry.kind, txJson);
+    if (change) changes.push(change);
+  }
+  return changes;
+};
+
+/**
+ * Totals of what open offers are selling, per currency. Offered funds stay in
+ * the owner's balance, but any of it can be traded away at any moment.
+ */
+export const sumOfferedAmounts = (offers: AccountOffer[]): Amount[] =>
+  sumAmounts(offers.map((offer) => offer.takerGets));
+
+/**
+ * The events of one offer found in loaded account history, oldest first.
+ * `transactions` is in account_tx order (newest first).
+ */
+export const getOfferHistory = (
+  transactions: Transaction[],
+  owner: string,
+  sequence: number
+): OfferHistoryEntry[] =>
+  transactions
+    .flatMap((tx) =>
+      (tx.offerChanges ?? [])
+        .filter((change) => change.owner === owner && change.sequence === sequence)
+        .map((change): OfferHistoryEntry => ({ ...change, hash: tx.hash, date: tx.date }))
+    )
+    .reverse();
+
+/**
+ * Offers from the loaded history that are no longer open, with the event
+ * that closed each of them. Newest first.
+ */
+export const getClosedOffers = (
+  transactions: Transaction[],
+  owner: string,
+  openSequences: Set<number>
+): OfferHistoryEntry[] => {
+  const closed = new Map<number, OfferHistoryEntry>();
+  for (const tx of transactions) {
+    for (const change of tx.offerChanges ?? []) {
+      if (change.owner !== owner || openSequences.has(change.sequence) || closed.has(change.sequence)) continue;
+      if (change.kind === "filled" || change.kind === "cancelled" || change.kind === "removed") {
+        closed.set(change.sequence, { ...change, hash: tx.hash, date: tx.date });
+      }
+    }
+  }
+  return Array.from(closed.values());
+};
+
+export const fetchAccountOffers = async (
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<AccountOffer[]> => {
+  try {
+    const client = await getClient(network);
+    console.log(`[XRPL] Fetching ${network} offers for address:`, address);
+
+    const offers: AccountOffer[] = [];
+    let marker: unknown = undefined;
+    do {
+      const response = await client.request({
+        command: "account_offers",
+        account: address,
+        ledger_index: "validated",
+        limit: OFFERS_PAGE_SIZE,
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const offer of response.result.offers ?? []) {
+        const takerGets = parseAmount(offer.taker_gets);
+        const takerPays = parseAmount(offer.taker_pays);
+        if (!takerGets || !takerPays) continue;
+        offers.push({
+          sequence: offer.seq,
+          flags: offer.flags,
+          takerGets,
+          takerPays,
+          rate: amountValue(takerPays) / amountValue(takerGets),
+          expiration: offer.expiration
+        });
+      }
+      marker = response.result.marker;
+    } while (marker !== undefined && marker !== null);
+
+    return offers;
+  } catch (error) {
+    if ((error as { data?: { error?: string } })?.data?.error === "actNotFound") {
+      return [];
+    }
+    console.error("[XRPL] Error fetching offers:", error);
+    toast.error("Failed to fetch offers");
+    return [];
+  }
+};
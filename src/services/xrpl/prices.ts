@@ -0,0 +1,259 @@
+import type { GetAggregatePriceRequest } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { decodeCurrencyCode, dropsToXRP } from "./amount";
+import { shortenAddress } from "./utils";
+import type { Amount, NetworkId } from "./types";
+
+const PRICE_SETTINGS_KEY = "xrpl_price_settings";
+const PRICE_FILE_KEY = "xrpl_price_file";
+
+export type PriceSourceId = "none" | "file" | "http" | "oracle";
+
+export const PRICE_SOURCE_LABELS: Record<PriceSourceId, string> = {
+  none: "No fiat values",
+  file: "Price file (CSV/JSON)",
+  http: "HTTP endpoint",
+  oracle: "On-ledger oracles"
+};
+
+export interface PriceOracleRef {
+  account: string;
+  documentId: number;
+}
+
+export interface PriceSettings {
+  source: PriceSourceId;
+  // Display currency, e.g. USD; also the quote asset asked of each source.
+  currency: string;
+  // {asset}, {currency} and {date} are substituted; {date} is YYYY-MM-DD or "now".
+  httpUrl: string;
+  oracles: PriceOracleRef[];
+  fileName?: string;
+}
+
+export interface PriceQuery {
+  // "XRP" or "CODE.rIssuer".
+  asset: string;
+  currency: string;
+  // ISO time to price at; omitted for the current price.
+  date?: string;
+}
+
+/** Adapter interface every price source implements. Resolves undefined when it has no price. */
+export interface PriceSource {
+  id: PriceSourceId;
+  // Whether the source can answer for past dates or only for now.
+  historical: boolean;
+  getPrice: (query: PriceQuery, network: NetworkId) => Promise<number | undefined>;
+}
+
+export const DEFAULT_PRICE_SETTINGS: PriceSettings = {
+  source: "none",
+  currency: "USD",
+  httpUrl: "http://localhost:8787/price?asset={asset}&currency={currency}&date={date}",
+  oracles: []
+};
+
+// Fiat price per unit, sorted by time, per asset key.
+export type PriceTable = Map<string, { time: number; price: number }[]>;
+
+export const getPriceAssetKey = (currency: string, issuer: string): string =>
+  currency === "XRP" && !issuer ? "XRP" : `${decodeCurrencyCode(currency)}.${issuer}`;
+
+// Orders asset keys with XRP first, then alphabetically.
+export const compareAssetKeys = (a: string, b: string): number =>
+  a === "XRP" ? -1 : b === "XRP" ? 1 : a.localeCompare(b);
+
+// "CODE · rIssuer…" with a shortened issuer, for display; XRP as is.
+export const formatAssetKey = (asset: string): string => {
+  const [currency, issuer] = asset.split(".");
+  return issuer ? `${currency} · ${shortenAddress(issuer)}` : currency;
+};
+
+// The asset key and whole-unit quantity a price applies to.
+export const getPriceQuantity = (amount: Amount): { asset: string; quantity: number } =>
+  amount.kind === "xrp"
+    ? { asset: "XRP", quantity: dropsToXRP(amount.drops) }
+    : { asset: getPriceAssetKey(amount.currency, amount.issuer), quantity: parseFloat(amount.value) };
+
+const addPrice = (table: PriceTable, asset: string, date: string, price: unknown) => {
+  const time = Date.parse(date);
+  const value = Number(price);
+  if (!asset || Number.isNaN(time) || !Number.isFinite(value)) return;
+  const series = table.get(asset) ?? [];
+  series.push({ time, price: value });
+  table.set(asset, series);
+};
+
+/**
+ * Reads a price file of `date,asset,price` lines, e.g. `2024-03-01,XRP,0.62`,
+ * or JSON: either an array of `{ date, asset, price }` or `{ asset: { date: price } }`.
+ * The asset is "XRP", a currency code for any issuer, or "CODE.rIssuer". In
+ * CSV a header line and lines starting with # are skipped.
+ */
+export const parsePriceFile = (text: string): PriceTable => {
+  const table: PriceTable = new Map();
+  const trimmedText = text.trim();
+
+  if (trimmedText.startsWith("[") || trimmedText.startsWith("{")) {
+    try {
+      const data: unknown = JSON.parse(trimmedText);
+      if (Array.isArray(data)) {
+        for (const entry of data as { date?: string; asset?: string; price?: unknown }[]) {
+          addPrice(table, entry.asset ?? "", entry.date ?? "", entry.price);
+        }
+      } else if (data && typeof data === "object") {
+        for (const [asset, series] of Object.entries(data as Record<string, Record<string, unknown>>)) {
+          for (const [date, price] of Object.entries(series ?? {})) addPrice(table, asset, date, price);
+        }
+      }
+    } catch (error) {
+      console.warn("[Prices] Could not parse JSON price file:", error);
+    }
+  } else {
+    for (const line of trimmedText.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+      const [date, asset, price] = trimmed.split(/[,;\t]/).map((field) => field.trim().replace(/^"|"$/g, ""));
+      addPrice(table, asset, date, price);
+    }
+  }
+
+  for (const series of table.values()) {
+    series.sort((a, b) => a.time - b.time);
+  }
+  return table;
+};
+
+// The latest price on or before the given time, preferring an issuer-specific entry.
+export const lookupPrice = (prices: PriceTable, asset: string, date?: string): number | undefined => {
+  const time = date ? new Date(date).getTime() : Date.now();
+  for (const key of [asset, asset.split(".")[0]]) {
+    const series = prices.get(key);
+    if (!series) continue;
+    let found: number | undefined;
+    for (const point of series) {
+      if (point.time > time) break;
+      found = point.price;
+    }
+    if (found !== undefined) return found;
+  }
+  return undefined;
+};
+
+export const createFilePriceSource = (table: PriceTable): PriceSource => ({
+  id: "file",
+  historical: true,
+  getPrice: async ({ asset, date }) => lookupPrice(table, asset, date)
+});
+
+/**
+ * Asks an HTTP service, typically a local stand-in for a commercial price API.
+ * The response may be a bare number or JSON with a numeric `price` field.
+ * Answers are cached per asset, currency and day.
+ */
+export const createHttpPriceSource = (template: string): PriceSource => {
+  const cache = new Map<string, Promise<number | undefined>>();
+  return {
+    id: "http",
+    historical: true,
+    getPrice: ({ asset, currency, date }) => {
+      const day = date ? date.slice(0, 10) : "now";
+      const url = template
+        .replace("{asset}", encodeURIComponent(asset))
+        .replace("{currency}", encodeURIComponent(currency))
+        .replace("{date}", day);
+      const cached = cache.get(url);
+      if (cached) return cached;
+
+      const request = fetch(url)
+        .then(async (response) => {
+          if (!response.ok) return undefined;
+          const body: unknown = await response.json();
+          const price = typeof body === "object" && body !== null ? (body as { price?: unknown }).price : body;
+          const value = Number(price);
+          return price !== null && price !== undefined && Number.isFinite(value) ? value : undefined;
+        })
+        .catch((error) => {
+          console.warn("[Prices] HTTP price request failed:", url, error);
+          // Forget failures so the next render can retry.
+          cache.delete(url);
+          return undefined;
+        });
+      cache.set(url, request);
+      return request;
+    }
+  };
+};
+
+/**
+ * Aggregates Price Oracle objects with get_aggregate_price. Oracles only hold
+ * their latest value, so this source cannot price past transactions.
+ */
+export const createOraclePriceSource = (oracles: PriceOracleRef[]): PriceSource => ({
+  id: "oracle",
+  historical: false,
+  getPrice: async ({ asset, currency, date }, network = DEFAULT_NETWORK) => {
+    if (date || oracles.length === 0) return undefined;
+    try {
+      const client = await getClient(network);
+      const request: GetAggregatePriceRequest = {
+        command: "get_aggregate_price",
+        // Oracles quote tokens by ticker, so the issuer is dropped.
+        base_asset: asset.split(".")[0],
+        quote_asset: currency,
+        oracles: oracles.map(({ account, documentId }) => ({ account, oracle_document_id: documentId })),
+        trim: 20
+      };
+      const response = await client.request(request);
+      const value = Number(response.result.median);
+      return Number.isFinite(value) ? value : undefined;
+    } catch (error) {
+      // objectNotFound when none of the oracles quote this pair.
+      console.warn("[Prices] get_aggregate_price failed:", asset, currency, error);
+      return undefined;
+    }
+  }
+});
+
+export const getPriceSettings = (): PriceSettings => {
+  try {
+    const stored = localStorage.getItem(PRICE_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PRICE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PRICE_SETTINGS;
+  } catch {
+    return DEFAULT_PRICE_SETTINGS;
+  }
+};
+
+export const savePriceSettings = (settings: PriceSettings): void => {
+  localStorage.setItem(PRICE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getStoredPriceFile = (): string => localStorage.getItem(PRICE_FILE_KEY) ?? "";
+
+export const storePriceFile = (text: string): void => {
+  localStorage.setItem(PRICE_FILE_KEY, text);
+};
+
+export const createPriceSource = (settings: PriceSettings, priceFile = getStoredPriceFile()): PriceSource | null => {
+  switch (settings.source) {
+    case "file":
+      return createFilePriceSource(parsePriceFile(priceFile));
+    case "http":
+      return createHttpPriceSource(settings.httpUrl);
+    case "oracle":
+      return createOraclePriceSource(settings.oracles);
+    default:
+      return null;
+  }
+};
+
+export const formatFiat = (value: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(value);
+  } catch {
+    // Not an ISO 4217 code, e.g. a stablecoin ticker.
+    return `${value.toLocaleString("en-US", { maximumFractionDigits: 2 })} ${currency}`;
+  }
+};
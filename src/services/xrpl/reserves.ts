@@ -0,0 +1,80 @@
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK, networkCacheKey } from "./networks";
+import type { NetworkId, NetworkReserves } from "./types";
+
+// Ledger index of the singleton FeeSettings object.
+const FEE_SETTINGS_INDEX = "4BC50C9B0D8515D3EAAE1E74B29A95804346C491EE1A95BF25E4AAB854A6A651";
+const RESERVES_TTL_MS = 10 * 60 * 1000;
+
+// Current mainnet values, used only when the server cannot tell us.
+const FALLBACK_RESERVES: NetworkReserves = { baseReserveXRP: 1, ownerReserveXRP: 0.2, source: "default" };
+
+const reserveCache = new Map<string, { reserves: NetworkReserves; fetchedAt: number }>();
+
+const fetchFromServerInfo = async (network: NetworkId): Promise<NetworkReserves | null> => {
+  const client = await getClient(network);
+  const response = await client.request({ command: "server_info" });
+  const ledger = response.result.info.validated_ledger;
+  if (!ledger || ledger.reserve_base_xrp === undefined || ledger.reserve_inc_xrp === undefined) {
+    return null;
+  }
+  return {
+    baseReserveXRP: Number(ledger.reserve_base_xrp),
+    ownerReserveXRP: Number(ledger.reserve_inc_xrp),
+    source: "server_info"
+  };
+};
+
+const fetchFromFeeSettings = async (network: NetworkId): Promise<NetworkReserves | null> => {
+  const client = await getClient(network);
+  const response = await client.request({
+    command: "ledger_entry",
+    index: FEE_SETTINGS_INDEX,
+    ledger_index: "validated"
+  });
+  const node = response.result.node as unknown as Record<string, unknown> | undefined;
+  if (!node) return null;
+
+  // XRPFees amendment renamed the fields and switched them to drop strings.
+  const base = node.ReserveBaseDrops ?? node.ReserveBase;
+  const increment = node.ReserveIncrementDrops ?? node.ReserveIncrement;
+  if (base === undefined || increment === undefined) return null;
+
+  return {
+    baseReserveXRP: Number(base) / 1_000_000,
+    ownerReserveXRP: Number(increment) / 1_000_000,
+    source: "FeeSettings"
+  };
+};
+
+/**
+ * Reads the live base and owner reserves for a network. Values are cached
+ * per network for a few minutes since they only change by validator vote.
+ */
+export const fetchReserves = async (network: NetworkId = DEFAULT_NETWORK): Promise<NetworkReserves> => {
+  const cacheKey = networkCacheKey(network, "reserves");
+  const cached = reserveCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < RESERVES_TTL_MS) {
+    return cached.reserves;
+  }
+
+  const sources: Array<[string, typeof fetchFromServerInfo]> = [
+    ["server_info", fetchFromServerInfo],
+    ["FeeSettings", fetchFromFeeSettings]
+  ];
+  for (const [label, source] of sources) {
+    try {
+      const reserves = await source(network);
+      if (reserves) {
+        reserveCache.set(cacheKey, { reserves, fetchedAt: Date.now() });
+        console.log(`[XRPL] ${network} reserves from ${reserves.source}:`, reserves);
+        return reserves;
+      }
+    } catch (error) {
+      console.warn(`[XRPL] Could not read reserves via ${label}:`, error);
+    }
+  }
+
+  console.warn(`[XRPL] Falling back to default reserves for ${network}`);
+  return cached?.reserves ?? FALLBACK_RESERVES;
+};
@@ -0,0 +1,261 @@
+import { isValidClassicAddress } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { decodeXRPLAddress, hexToAscii, shortenAddress } from "./utils";
+import type { NetworkId, SearchResult } from "./types";
+
+const HASH_PATTERN = /^[0-9A-F]{64}$/i;
+const LEDGER_INDEX_PATTERN = /^\d{1,10}$/;
+// An AMM LP token currency code, optionally followed by its issuer (the AMM account).
+const LP_TOKEN_PATTERN = /^(03[0-9A-F]{38})(?:[\s.:/]+(r[1-9A-HJ-NP-Za-km-z]{24,34}))?$/i;
+const DOMAIN_PATTERN = /^(?:https?:\/\/)?((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,})\/?$/i;
+
+// Largest transfer fee an NFToken can carry (50%).
+const MAX_NFT_TRANSFER_FEE = 50000;
+
+// xrp-ledger.toml `network` values, per the XLS-26 spec.
+const TOML_NETWORKS: Partial<Record<NetworkId, string>> = {
+  mainnet: "main",
+  testnet: "testnet",
+  devnet: "devnet"
+};
+
+/**
+ * NFToken IDs share the 64-hex shape of hashes. Their first four bytes are the
+ * token flags and transfer fee, which are small for real tokens and random
+ * for hashes, so this tells the two apart with few false positives.
+ */
+const looksLikeNFTokenID = (hex: string): boolean => {
+  const flags = parseInt(hex.slice(0, 4), 16);
+  const transferFee = parseInt(hex.slice(4, 8), 16);
+  return flags <= 0xff && transferFee <= MAX_NFT_TRANSFER_FEE;
+};
+
+const accountResult = (address: string, description?: string): SearchResult => ({
+  kind: "account",
+  value: address,
+  label: address,
+  description,
+  path: `/dashboard/${address}`,
+  verified: true
+});
+
+/**
+ * Classifies search input by shape alone. Inputs that fit several formats
+ * (a 64-hex string may be a transaction, ledger or NFToken) return one
+ * unverified candidate per reading; resolveSearch narrows them down.
+ */
+export const classifySearchInput = (input: string): SearchResult[] => {
+  const query = input.trim();
+  if (!query) return [];
+
+  if (isValidClassicAddress(query)) {
+    return [accountResult(query)];
+  }
+
+  const decoded = decodeXRPLAddress(query);
+  if (decoded?.isXAddress) {
+    return [{
+      kind: "xaddress",
+      value: query,
+      label: decoded.classicAddress,
+      description: [
+        decoded.tag === undefined ? "X-address without tag" : `X-address with destination tag ${decoded.tag}`,
+        decoded.isTestNetwork ? "for test networks" : "for mainnet"
+      ].join(", "),
+      // The Dashboard decodes the X-address itself so it can filter by the tag.
+      path: `/dashboard/${query}`,
+      verified: true
+    }];
+  }
+
+  if (LEDGER_INDEX_PATTERN.test(query)) {
+    return [{
+      kind: "ledger",
+      value: query,
+      label: `Ledger #${Number(query).toLocaleString()}`,
+      path: `/ledger/${Number(query)}`,
+      verified: false
+    }];
+  }
+
+  if (HASH_PATTERN.test(query)) {
+    const hash = query.toUpperCase();
+    const candidates: SearchResult[] = [
+      {
+        kind: "transaction",
+        value: hash,
+        label: `Transaction ${shortenAddress(hash, 16)}`,
+        path: `/transaction/${hash}`,
+        verified: false
+      },
+      {
+        kind: "ledger",
+        value: hash,
+        label: `Ledger ${shortenAddress(hash, 16)}`,
+        path: `/ledger/${hash}`,
+        verified: false
+      }
+    ];
+    if (looksLikeNFTokenID(hash)) {
+      candidates.push({
+        kind: "nft",
+        value: hash,
+        label: `NFToken ${shortenAddress(hash, 16)}`,
+        path: `/nft/${hash}`,
+        verified: false
+      });
+    }
+    return candidates;
+  }
+
+  const lpToken = query.match(LP_TOKEN_PATTERN);
+  if (lpToken) {
+    const [, currency, issuer] = lpToken;
+    return [{
+      kind: "lpToken",
+      value: issuer ?? currency.toUpperCase(),
+      label: `AMM LP token ${shortenAddress(currency.toUpperCase(), 16)}`,
+      description: issuer
+        ? `Issued by AMM account ${issuer}`
+        : "Add the issuing AMM account after the code to open its pool",
+      path: issuer ? `/amm/${issuer}` : undefined,
+      verified: false
+    }];
+  }
+
+  const domain = query.match(DOMAIN_PATTERN);
+  if (domain) {
+    const name = domain[1].toLowerCase();
+    return [{
+      kind: "domain",
+      value: name,
+      label: name,
+      description: "Look up accounts in this domain's xrp-ledger.toml",
+      verified: false
+    }];
+  }
+
+  return [];
+};
+
+interface TomlAccount {
+  address: string;
+  desc?: string;
+  network?: string;
+}
+
+/**
+ * Pulls the [[ACCOUNTS]] tables out of an xrp-ledger.toml file. Only string
+ * keys are read, which is all the ACCOUNTS section defines.
+ */
+export const parseTomlAccounts = (toml: string): TomlAccount[] => {
+  const accounts: TomlAccount[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const rawLine of toml.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, "").trim();
+    if (line.startsWith("[")) {
+      if (current?.address) accounts.push(current as unknown as TomlAccount);
+      current = line === "[[ACCOUNTS]]" ? {} : null;
+      continue;
+    }
+    const entry = current && line.match(/^(\w+)\s*=\s*["'](.*)["']$/);
+    if (entry) current[entry[1]] = entry[2];
+  }
+  if (current?.address) accounts.push(current as unknown as TomlAccount);
+
+  return accounts.filter((account) => isValidClassicAddress(account.address));
+};
+
+/**
+ * Lists the accounts a domain claims in its xrp-ledger.toml. An account counts
+ * as verified only when its own Domain field points back at the domain.
+ */
+export const fetchDomainAccounts = async (
+  domain: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<SearchResult[]> => {
+  const response = await fetch(`https://${domain}/.well-known/xrp-ledger.toml`);
+  if (!response.ok) {
+    throw new Error(`xrp-ledger.toml request failed with status ${response.status}`);
+  }
+
+  const tomlNetwork = TOML_NETWORKS[network];
+  const accounts = parseTomlAccounts(await response.text()).filter(
+    (account) => !account.network || !tomlNetwork || account.network === tomlNetwork
+  );
+
+  const client = await getClient(network);
+  return Promise.all(
+    accounts.map(async (account) => {
+      let verified = false;
+      try {
+        const info = await client.request({
+          command: "account_info",
+          account: account.address,
+          ledger_index: "validated"
+        });
+        const accountDomain = info.result.account_data.Domain;
+        verified = Boolean(accountDomain) && hexToAscii(accountDomain).toLowerCase() === domain;
+      } catch (error) {
+        console.warn(`[XRPL] Could not verify ${account.address} for ${domain}:`, error);
+      }
+      return {
+        ...accountResult(account.address, account.desc ?? `Listed by ${domain}`),
+        verified
+      };
+    })
+  );
+};
+
+const verifyHashCandidate = async (candidate: SearchResult, network: NetworkId): Promise<boolean> => {
+  const client = await getClient(network);
+  switch (candidate.kind) {
+    case "transaction":
+      await client.request({ command: "tx", transaction: candidate.value });
+      return true;
+    case "ledger":
+      await client.request({ command: "ledger", ledger_hash: candidate.value });
+      return true;
+    default:
+      // nft_info is Clio-only, so NFToken IDs are left as shape-based guesses.
+      return false;
+  }
+};
+
+/**
+ * Resolves search input against the network. Returns the confirmed matches
+ * when there are any, otherwise the shape-based candidates as suggestions.
+ */
+export const resolveSearch = async (
+  input: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<SearchResult[]> => {
+  const candidates = classifySearchInput(input);
+
+  if (candidates[0]?.kind === "domain") {
+    try {
+      const accounts = await fetchDomainAccounts(candidates[0].value, network);
+      return accounts.length > 0 ? accounts : candidates;
+    } catch (error) {
+      console.warn(`[XRPL] Could not read xrp-ledger.toml for ${candidates[0].value}:`, error);
+      return candidates;
+    }
+  }
+
+  if (candidates.length > 1) {
+    const checks = await Promise.allSettled(
+      candidates.map((candidate) => verifyHashCandidate(candidate, network))
+    );
+    const confirmed = candidates
+      .filter((_, index) => {
+        const check = checks[index];
+        return check.status === "fulfilled" && check.value;
+      })
+      .map((candidate) => ({ ...candidate, verified: true }));
+    return confirmed.length > 0 ? confirmed : candidates;
+  }
+
+  return candidates;
+};
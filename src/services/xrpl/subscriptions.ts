@@ -0,0 +1,201 @@
+import type { Client, LedgerStream, SubscribeBook, TransactionStream } from "xrpl";
+import { getClient, onClientConnected } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import { parseAmount } from "./amount";
+import { formatXRPLDate } from "./utils";
+import type { AffectedNode, Amount, BookAsset, NetworkId } from "./types";
+
+export interface LedgerClosedEvent {
+  ledgerIndex: number;
+  ledgerHash: string;
+  closeTime: string;
+  txnCount: number;
+}
+
+export interface AccountTransactionEvent {
+  hash: string;
+  ledgerIndex: number;
+  type: string;
+  account: string;
+  destination?: string;
+  result: string;
+  // Delivered amount for payments, otherwise the transaction's Amount field.
+  amount?: Amount;
+  // A payment whose destination is the subscribed account.
+  isIncomingPayment: boolean;
+}
+
+export interface StreamHandlers {
+  onTransaction?: (event: AccountTransactionEvent) => void;
+  onLedgerClosed?: (event: LedgerClosedEvent) => void;
+}
+
+// Server-side subscriptions are shared per client, so count the local subscribers of each.
+const subscriberCounts = new WeakMap<Client, Map<string, number>>();
+
+const changeSubscriberCounts = (client: Client, keys: string[], delta: 1 | -1): string[] => {
+  let counts = subscriberCounts.get(client);
+  if (!counts) {
+    counts = new Map();
+    subscriberCounts.set(client, counts);
+  }
+  const changed: string[] = [];
+  for (const key of keys) {
+    const before = counts.get(key) ?? 0;
+    const after = Math.max(0, before + delta);
+    counts.set(key, after);
+    // Only the first subscriber subscribes and only the last one unsubscribes.
+    if ((delta === 1 && before === 0) || (delta === -1 && before > 0 && after === 0)) {
+      changed.push(key);
+    }
+  }
+  return changed;
+};
+
+const keysWithPrefix = (keys: string[], prefix: string) =>
+  keys.filter((key) => key.startsWith(prefix)).map((key) => key.slice(prefix.length));
+
+const toStreamRequest = (keys: string[]) => {
+  const accounts = keysWithPrefix(keys, "account:");
+  const streams = keysWithPrefix(keys, "stream:");
+  const books = keysWithPrefix(keys, "book:").map((key) => ({ ...JSON.parse(key), both: true }) as SubscribeBook);
+  return {
+    ...(accounts.length > 0 && { accounts }),
+    ...(streams.length > 0 && { streams: streams as Array<"ledger"> }),
+    ...(books.length > 0 && { books })
+  };
+};
+
+const touchesAccount = (txJson: Record<string, unknown>, nodes: AffectedNode[], account: string): boolean => {
+  if (txJson.Account === account || txJson.Destination === account) return true;
+  return nodes.some((node) => {
+    const body = node.CreatedNode ?? node.ModifiedNode ?? node.DeletedNode;
+    const fields = { ...body?.FinalFields, ...body?.NewFields };
+    const low = fields.LowLimit as { issuer?: string } | undefined;
+    const high = fields.HighLimit as { issuer?: string } | undefined;
+    return fields.Account === account || fields.Destination === account || low?.issuer === account || high?.issuer === account;
+  });
+};
+
+const toTransactionEvent = (message: TransactionStream, account: string): AccountTransactionEvent | null => {
+  const raw = message as unknown as Record<string, unknown>;
+  // API v2 streams carry tx_json; v1 streams carry transaction.
+  const txJson = (raw.tx_json ?? raw.transaction) as Record<string, unknown> | undefined;
+  const meta = raw.meta as { TransactionResult?: string; AffectedNodes?: AffectedNode[]; delivered_amount?: unknown } | undefined;
+  if (!txJson || !meta || !touchesAccount(txJson, meta.AffectedNodes ?? [], account)) {
+    return null;
+  }
+
+  const type = String(txJson.TransactionType);
+  const amount = parseAmount((meta.delivered_amount ?? txJson.DeliverMax ?? txJson.Amount) as Parameters<typeof parseAmount>[0]);
+  return {
+    hash: String(raw.hash ?? txJson.hash),
+    ledgerIndex: Number(raw.ledger_index),
+    type,
+    account: String(txJson.Account),
+    destination: txJson.Destination as string | undefined,
+    result: meta.TransactionResult ?? String(raw.engine_result),
+    amount,
+    isIncomingPayment: type === "Payment" && txJson.Destination === account
+  };
+};
+
+const toLedgerEvent = (message: LedgerStream): LedgerClosedEvent => ({
+  ledgerIndex: message.ledger_index,
+  ledgerHash: message.ledger_hash,
+  closeTime: formatXRPLDate(message.ledger_time),
+  txnCount: message.txn_count
+});
+
+interface StreamListeners {
+  transaction?: (message: TransactionStream) => void;
+  ledger?: (message: LedgerStream) => void;
+}
+
+// Subscribes `keys` on the network's client and re-sends them after a
+// reconnect; returns a function that cancels them.
+const openSubscription = (keys: string[], listeners: StreamListeners, network: NetworkId): (() => void) => {
+  let current: Client | null = null;
+  let closed = false;
+
+  const handleTransaction = (message: TransactionStream) => listeners.transaction?.(message);
+  const handleLedger = (message: LedgerStream) => listeners.ledger?.(message);
+
+  const attach = (client: Client) => {
+    if (closed || client === current) return;
+    // The previous client is gone after a failover; drop its listeners.
+    current?.off("transaction", handleTransaction);
+    current?.off("ledgerClosed", handleLedger);
+    current = client;
+    client.on("transaction", handleTransaction);
+    client.on("ledgerClosed", handleLedger);
+    const added = changeSubscriberCounts(client, keys, 1);
+    if (added.length > 0) {
+      client.request({ command: "subscribe", ...toStreamRequest(added) }).catch((error) => {
+        console.error(`[XRPL] Failed to subscribe to ${added.join(", ")}:`, error);
+      });
+    }
+  };
+
+  const stopListening = onClientConnected(network, attach);
+  getClient(network)
+    .then(attach)
+    .catch((error) => console.error("[XRPL] Could not open stream subscription:", error));
+
+  return () => {
+    closed = true;
+    stopListening();
+    if (!current) return;
+    current.off("transaction", handleTransaction);
+    current.off("ledgerClosed", handleLedger);
+    const removed = changeSubscriberCounts(current, keys, -1);
+    if (removed.length > 0 && current.isConnected()) {
+      current.request({ command: "unsubscribe", ...toStreamRequest(removed) }).catch(() => undefined);
+    }
+    current = null;
+  };
+};
+
+/**
+ * Subscribes to validated transactions affecting `account` (if given) and,
+ * when a ledger handler is passed, to the ledger stream. Subscriptions are
+ * re-sent after a reconnect. Returns a function that cancels them.
+ */
+export const subscribeToStreams = (
+  account: string | null,
+  handlers: StreamHandlers,
+  network: NetworkId = DEFAULT_NETWORK
+): (() => void) => {
+  const keys = [
+    ...(account ? [`account:${account}`] : []),
+    ...(handlers.onLedgerClosed ? ["stream:ledger"] : [])
+  ];
+
+  return openSubscription(keys, {
+    transaction: (message) => {
+      if (!account || !message.validated) return;
+      const event = toTransactionEvent(message, account);
+      if (event) handlers.onTransaction?.(event);
+    },
+    ledger: (message) => handlers.onLedgerClosed?.(toLedgerEvent(message))
+  }, network);
+};
+
+/**
+ * Subscribes to both sides of an order book. `onTransaction` gets every
+ * validated transaction the client receives, so callers filter the metadata
+ * for the offers they care about.
+ */
+export const subscribeToBook = (
+  base: BookAsset,
+  counter: BookAsset,
+  onTransaction: (message: TransactionStream) => void,
+  network: NetworkId = DEFAULT_NETWORK
+): (() => void) => {
+  const book = { taker_gets: base, taker_pays: counter };
+  return openSubscription([`book:${JSON.stringify(book)}`], {
+    transaction: (message) => {
+      if (message.validated) onTransaction(message);
+    }
+  }, network);
+};
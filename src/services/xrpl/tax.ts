@@ -0,0 +1,345 @@
+import { DEFAULT_NETWORK } from "./networks";
+import { getAccountBalanceChanges } from "./balanceChanges";
+import { escapeSpreadsheetText, serializeCSVRows } from "./export";
+import { getPriceAssetKey, lookupPrice, type PriceTable } from "./prices";
+import { iterateTransactionPages } from "./transactions";
+import type { NetworkId, Transaction } from "./types";
+
+export type CostBasisMethod = "fifo" | "lifo" | "average";
+
+export type MovementKind = "income" | "transfer" | "trade" | "fee" | "selfTransfer";
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO (first in, first out)",
+  lifo: "LIFO (last in, first out)",
+  average: "Average cost"
+};
+
+export const MOVEMENT_LABELS: Record<MovementKind, string> = {
+  income: "Income",
+  transfer: "Transfer out",
+  trade: "Trade",
+  fee: "Fee",
+  selfTransfer: "Self-transfer"
+};
+
+/** One currency moving in or out of the account within one transaction. */
+export interface Movement {
+  hash: string;
+  date: string;
+  kind: MovementKind;
+  // "XRP" or "CODE.rIssuer"; also the key looked up in the price file.
+  asset: string;
+  // Signed, in whole units.
+  quantity: number;
+}
+
+export interface TaxEvent {
+  date: string;
+  hash: string;
+  kind: MovementKind;
+  asset: string;
+  quantity: number;
+  price?: number;
+  proceeds?: number;
+  costBasis?: number;
+  gain?: number;
+  // Market value of income received.
+  income?: number;
+  note?: string;
+}
+
+export interface TaxSummary {
+  year: number;
+  method: CostBasisMethod;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  income: number;
+  fees: number;
+  // Movements that needed a price the price file did not have.
+  missingPrices: number;
+  // Disposals of more than the tracked lots held; their cost basis is taken as zero.
+  uncoveredDisposals: number;
+}
+
+export interface TaxReport {
+  summary: TaxSummary;
+  events: TaxEvent[];
+}
+
+export interface TaxReportOptions {
+  year: number;
+  method: CostBasisMethod;
+  prices: PriceTable;
+  // The user's other wallets; movements to or from them are self-transfers.
+  ownAddresses?: string[];
+}
+
+// Remainders below this are float noise from splitting lots.
+const EPSILON = 1e-12;
+
+const yearBounds = (year: number) => ({
+  start: Date.UTC(year, 0, 1),
+  end: Date.UTC(year + 1, 0, 1)
+});
+
+/**
+ * Splits a transaction into the account's movements. Several currencies moving
+ * in opposite directions are a trade (DEX crossing, cross-currency payment, AMM
+ * deposit); a single direction is income or a transfer out, unless the other
+ * side is one of the user's own wallets.
+ */
+export const classifyMovements = (
+  transaction: Transaction,
+  account: string,
+  ownAddresses: ReadonlySet<string> = new Set()
+): Movement[] => {
+  const date = transaction.closeTime ?? transaction.date;
+  const changes = getAccountBalanceChanges(transaction.balanceChanges, account);
+  const moved = changes.filter((change) => !change.isFee);
+  const hasIn = moved.some((change) => Number(change.value) > 0);
+  const hasOut = moved.some((change) => Number(change.value) < 0);
+  const counterparty = transaction.from === account ? transaction.to : transaction.from;
+  const isSelf = counterparty === account || ownAddresses.has(counterparty);
+
+  const kindOf = (value: number): MovementKind => {
+    if (hasIn && hasOut) return "trade";
+    if (isSelf) return "selfTransfer";
+    return value > 0 ? "income" : "transfer";
+  };
+
+  return changes.map((change) => {
+    const quantity = Number(change.value);
+    return {
+      hash: transaction.hash,
+      date,
+      kind: change.isFee ? "fee" : kindOf(quantity),
+      asset: getPriceAssetKey(change.currency, change.issuer),
+      quantity
+    };
+  });
+};
+
+interface Lot {
+  quantity: number;
+  unitCost: number;
+}
+
+interface LotPool {
+  add: (quantity: number, unitCost: number) => void;
+  // Returns the cost of what was removed and how much held lots could not cover.
+  remove: (quantity: number) => { cost: number; uncovered: number };
+}
+
+// Holdings of one asset, consumed in the order the method dictates.
+const createLotPool = (method: CostBasisMethod): LotPool => {
+  const lots: Lot[] = [];
+  return {
+    add: (quantity, unitCost) => {
+      const [pool] = lots;
+      if (method === "average" && pool) {
+        const total = pool.quantity + quantity;
+        pool.unitCost = total > EPSILON ? (pool.quantity * pool.unitCost + quantity * unitCost) / total : 0;
+        pool.quantity = total;
+      } else {
+        lots.push({ quantity, unitCost });
+      }
+    },
+    remove: (quantity) => {
+      let remaining = quantity;
+      let cost = 0;
+      while (remaining > EPSILON && lots.length > 0) {
+        const lot = method === "lifo" ? lots[lots.length - 1] : lots[0];
+        const taken = Math.min(lot.quantity, remaining);
+        cost += taken * lot.unitCost;
+        lot.quantity -= taken;
+        remaining -= taken;
+        if (lot.quantity <= EPSILON) {
+          if (method === "lifo") lots.pop();
+          else lots.shift();
+        }
+      }
+      return { cost, uncovered: remaining > EPSILON ? remaining : 0 };
+    }
+  };
+};
+
+// Fiat value of one side of a trade, or undefined unless every leg on it is priced.
+const sideValue = (legs: { movement: Movement; price?: number }[]): number | undefined =>
+  legs.length > 0 && legs.every(({ price }) => price !== undefined)
+    ? legs.reduce((sum, { movement, price = 0 }) => sum + Math.abs(movement.quantity) * price, 0)
+    : undefined;
+
+/**
+ * Runs the account's movements, oldest first, through per-asset lot pools and
+ * reports the tax year's disposals, income and fees. Earlier years are still
+ * replayed since they determine the lots held at the start of the year.
+ */
+export const buildTaxReport = (
+  transactions: Transaction[],
+  account: string,
+  { year, method, prices, ownAddresses = [] }: TaxReportOptions
+): TaxReport => {
+  const { start, end } = yearBounds(year);
+  const own = new Set(ownAddresses);
+  const pools = new Map<string, LotPool>();
+  const poolFor = (asset: string) => {
+    const pool = pools.get(asset) ?? createLotPool(method);
+    pools.set(asset, pool);
+    return pool;
+  };
+
+  const events: TaxEvent[] = [];
+  const summary: TaxSummary = {
+    year,
+    method,
+    proceeds: 0,
+    costBasis: 0,
+    gain: 0,
+    income: 0,
+    fees: 0,
+    missingPrices: 0,
+    uncoveredDisposals: 0
+  };
+
+  for (const transaction of transactions) {
+    const movements = classifyMovements(transaction, account, own);
+    if (movements.length === 0) continue;
+    const time = new Date(movements[0].date).getTime();
+    if (time >= end) break;
+    const inYear = time >= start;
+
+    const priced = movements.map((movement) => ({ movement, price: lookupPrice(prices, movement.asset, movement.date) }));
+    const tradeIn = priced.filter(({ movement }) => movement.kind === "trade" && movement.quantity > 0);
+    const tradeOut = priced.filter(({ movement }) => movement.kind === "trade" && movement.quantity < 0);
+
+    for (const { movement, price: marketPrice } of priced) {
+      const quantity = Math.abs(movement.quantity);
+      let price = marketPrice;
+      // Both sides of a trade have the same fiat value, so a fully priced side values a lone unpriced leg.
+      if (price === undefined && movement.kind === "trade") {
+        const [sameSide, otherSide] = movement.quantity > 0 ? [tradeIn, tradeOut] : [tradeOut, tradeIn];
+        const value = sideValue(otherSide);
+        if (sameSide.length === 1 && value !== undefined) price = value / quantity;
+      }
+
+      const pool = poolFor(movement.asset);
+      const event: TaxEvent = {
+        date: movement.date,
+        hash: movement.hash,
+        kind: movement.kind,
+        asset: movement.asset,
+        quantity: movement.quantity,
+        price
+      };
+      const notes: string[] = [];
+      if (price === undefined && movement.kind !== "selfTransfer") {
+        notes.push("no price");
+        if (inYear) summary.missingPrices += 1;
+      }
+
+      if (movement.quantity > 0) {
+        // Self-transfers arrive with an unknown basis from the other wallet; market value stands in for it.
+        pool.add(quantity, price ?? 0);
+        if (movement.kind === "income" && price !== undefined) {
+          event.income = quantity * price;
+          if (inYear) summary.income += event.income;
+        }
+        if (movement.kind === "selfTransfer") notes.push("basis taken at market value");
+      } else if (movement.kind === "selfTransfer") {
+        pool.remove(quantity);
+      } else {
+        const { cost, uncovered } = pool.remove(quantity);
+        event.costBasis = cost;
+        if (price !== undefined) {
+          event.proceeds = quantity * price;
+          event.gain = event.proceeds - cost;
+        }
+        if (uncovered > 0) {
+          notes.push(`${uncovered} not covered by tracked lots`);
+          if (inYear) summary.uncoveredDisposals += 1;
+        }
+        if (inYear) {
+          summary.proceeds += event.proceeds ?? 0;
+          summary.costBasis += cost;
+          summary.gain += event.gain ?? 0;
+          if (movement.kind === "fee") summary.fees += event.proceeds ?? 0;
+        }
+      }
+
+      if (notes.length > 0) event.note = notes.join("; ");
+      if (inYear) events.push(event);
+    }
+  }
+
+  return { summary, events };
+};
+
+/**
+ * Reads the account's history oldest first, up to the end of the tax year.
+ * The whole history is needed because lots bought in earlier years are sold in
+ * this one. Throws if a page fails so a report is never built on partial data.
+ */
+export const fetchTaxHistory = async (
+  address: string,
+  year: number,
+  network: NetworkId = DEFAULT_NETWORK,
+  onProgress?: (scanned: number) => void,
+  signal?: AbortSignal
+): Promise<Transaction[]> => {
+  const { end } = yearBounds(year);
+  const transactions: Transaction[] = [];
+  for await (const page of iterateTransactionPages(address, { forward: true }, network)) {
+    if (signal?.aborted) break;
+    transactions.push(...page.transactions);
+    onProgress?.(transactions.length);
+    const last = page.transactions[page.transactions.length - 1];
+    if (last?.closeTime && new Date(last.closeTime).getTime() >= end) break;
+  }
+  return transactions;
+};
+
+const money = (value: number | undefined) => (value === undefined ? "" : value.toFixed(2));
+
+export const serializeTaxReport = (report: TaxReport, fiat: string): string => {
+  const { summary, events } = report;
+  return serializeCSVRows([
+    [
+      "Date (UTC)",
+      "Hash",
+      "Category",
+      "Asset",
+      "Quantity",
+      `Price (${fiat})`,
+      `Proceeds (${fiat})`,
+      `Cost basis (${fiat})`,
+      `Gain (${fiat})`,
+      `Income (${fiat})`,
+      "Note"
+    ],
+    ...events.map((event) => [
+      event.date,
+      event.hash,
+      MOVEMENT_LABELS[event.kind],
+      // Currency codes are chosen by the token issuer.
+      escapeSpreadsheetText(event.asset),
+      event.quantity,
+      event.price ?? "",
+      money(event.proceeds),
+      money(event.costBasis),
+      money(event.gain),
+      money(event.income),
+      event.note ?? ""
+    ]),
+    [],
+    ["Summary", `Tax year ${summary.year}`, COST_BASIS_LABELS[summary.method]],
+    ["Proceeds", money(summary.proceeds)],
+    ["Cost basis", money(summary.costBasis)],
+    ["Realised gain", money(summary.gain)],
+    ["Income", money(summary.income)],
+    ["Fees", money(summary.fees)],
+    ["Movements without a price", summary.missingPrices],
+    ["Disposals beyond tracked lots", summary.uncoveredDisposals]
+  ]);
+};
@@ -0,0 +1,98 @@
+import { getClient } from "./connection";
+import { fetchValidatedLedgerIndex } from "./ledger";
+import { DEFAULT_NETWORK } from "./networks";
+import { subscribeToStreams } from "./subscriptions";
+import type { NetworkId, TransactionTrackingStatus } from "./types";
+
+// A hash no server has heard of after this many ledgers (~40s) was most likely never submitted.
+const MAX_UNSEEN_LEDGERS = 10;
+
+type TrackingCheck = Pick<TransactionTrackingStatus, "seen" | "lastLedgerSequence" | "ledgerIndex"> & {
+  validated: boolean;
+};
+
+const checkTransaction = async (hash: string, network: NetworkId): Promise<TrackingCheck> => {
+  const client = await getClient(network);
+  try {
+    const response = await client.request({ command: "tx", transaction: hash });
+    const txJson = (response.result.tx_json ?? response.result) as { LastLedgerSequence?: number };
+    return {
+      validated: Boolean(response.result.validated),
+      seen: true,
+      lastLedgerSequence: txJson.LastLedgerSequence,
+      ledgerIndex: response.result.ledger_index
+    };
+  } catch (error) {
+    if ((error as { data?: { error?: string } })?.data?.error === "txnNotFound") {
+      return { validated: false, seen: false };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Follows a submitted transaction ledger by ledger until it is validated, its
+ * LastLedgerSequence passes (so it can never be included), or it stays
+ * unknown to the server for too long. `onUpdate` gets the status after every
+ * validated ledger; tracking stops by itself on a final state. Returns a
+ * function that stops it early.
+ */
+export const trackTransaction = (
+  hash: string,
+  onUpdate: (status: TransactionTrackingStatus) => void,
+  network: NetworkId = DEFAULT_NETWORK
+): (() => void) => {
+  let stopped = false;
+  let checking = false;
+  let startLedger: number | null = null;
+  let lastLedgerSequence: number | undefined;
+  let unsubscribe: (() => void) | null = null;
+
+  const stop = () => {
+    stopped = true;
+    unsubscribe?.();
+    unsubscribe = null;
+  };
+
+  const check = async (currentLedger: number) => {
+    if (stopped || checking) return;
+    checking = true;
+    startLedger ??= currentLedger;
+    try {
+      const result = await checkTransaction(hash, network);
+      if (stopped) return;
+      lastLedgerSequence = result.lastLedgerSequence ?? lastLedgerSequence;
+
+      let state: TransactionTrackingStatus["state"] = "pending";
+      if (result.validated) {
+        state = "validated";
+      } else if (lastLedgerSequence !== undefined && currentLedger > lastLedgerSequence) {
+        state = "expired";
+      } else if (!result.seen && lastLedgerSequence === undefined && currentLedger - startLedger >= MAX_UNSEEN_LEDGERS) {
+        state = "notFound";
+      }
+
+      onUpdate({
+        state,
+        currentLedger,
+        startLedger,
+        lastLedgerSequence,
+        seen: result.seen,
+        ledgerIndex: result.validated ? result.ledgerIndex : undefined
+      });
+      if (state !== "pending") stop();
+    } catch (error) {
+      console.warn(`[XRPL] Could not check transaction ${hash}:`, error);
+    } finally {
+      checking = false;
+    }
+  };
+
+  fetchValidatedLedgerIndex(network)
+    .then(check)
+    .catch((error) => console.warn("[XRPL] Could not read the validated ledger index:", error));
+
+  unsubscribe = subscribeToStreams(null, { onLedgerClosed: (ledger) => check(ledger.ledgerIndex) }, network);
+
+  return stop;
+};
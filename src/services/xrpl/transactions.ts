@@ -1,18 +1,91 @@
 import { toast } from "sonner";
-import { getClient, formatXRPAmount, formatXRPLDate, hexToAscii } from "./utils";
+import { rippleTimeToISOTime } from "xrpl";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK, networkCacheKey } from "./networks";
+import { formatXRPAmount, formatXRPLDate, hexToAscii } from "./utils";
+import { formatAmount, parseAmount } from "./amount";
+import { getTransactionBalanceChanges } from "./balanceChanges";
+import { getTransactionOfferChanges } from "./offers";
+import { getCreatedLedgerObjects } from "./objects";
+import { isPartialPayment } from "./flags";
 import type { 
+  Amount,
   Transaction, 
   TransactionDetail,
   XRPLTransaction,
   TransactionMetadata,
   AccountTxResponse,
-  AccountTxTransaction 
+  AccountTxTransaction,
+  NetworkId,
+  TransactionPage,
+  TransactionPageOptions
 } from "./types";
 
-export const fetchTransactionDetails = async (hash: string): Promise<TransactionDetail | null> => {
+export const DEFAULT_PAGE_SIZE = 200;
+
+/**
+ * The account a transaction acts on, for the "To" column. Only some types have
+ * a Destination; for others the counterparty lives in a type-specific field.
+ * Returns an empty string when there is none (e.g. OfferCreate, AccountSet).
+ */
+const getCounterparty = (txJson: Record<string, unknown>): string => {
+  const issuerOf = (value: unknown) => (value as { issuer?: string } | undefined)?.issuer;
+  switch (txJson.TransactionType) {
+    case "TrustSet":
+      return issuerOf(txJson.LimitAmount) ?? "";
+    case "Clawback":
+      return (txJson.Holder as string) ?? issuerOf(txJson.Amount) ?? "";
+    case "EscrowFinish":
+    case "EscrowCancel":
+    case "NFTokenBurn":
+      return (txJson.Owner as string) ?? "";
+    case "SetRegularKey":
+      return (txJson.RegularKey as string) ?? "";
+    case "DepositPreauth":
+      return (txJson.Authorize as string) ?? (txJson.Unauthorize as string) ?? "";
+    case "AMMClawback":
+    case "MPTokenIssuanceSet":
+      return (txJson.Holder as string) ?? "";
+    case "CredentialCreate":
+      return (txJson.Subject as string) ?? "";
+    case "CredentialAccept":
+      return (txJson.Issuer as string) ?? "";
+    default:
+      return (txJson.Destination as string) ?? (txJson.destination as string) ?? "";
+  }
+};
+
+// delivered_amount wins because partial payments can deliver less than Amount.
+const pickAmount = (...candidates: Parameters<typeof parseAmount>[0][]): Amount | undefined => {
+  for (const candidate of candidates) {
+    const parsed = parseAmount(candidate);
+    if (parsed) return parsed;
+  }
+  return undefined;
+};
+
+// Decoded MemoData of every memo, skipping memos that only carry a type or format.
+const decodeMemos = (memos: unknown): string[] =>
+  Array.isArray(memos)
+    ? memos
+        .map((memo: { Memo?: { MemoData?: string } }) => (memo.Memo?.MemoData ? hexToAscii(memo.Memo.MemoData) : ""))
+        .filter(Boolean)
+    : [];
+
+const toCloseTime = (closeTimeIso: string | undefined, rippleDate: number | undefined): string | undefined =>
+  closeTimeIso ?? (rippleDate === undefined ? undefined : rippleTimeToISOTime(rippleDate));
+
+/**
+ * Fetches a transaction by hash. Returns null while it is unknown or not yet
+ * validated, so the page can track it; any other failure is thrown.
+ */
+export const fetchTransactionDetails = async (
+  hash: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<TransactionDetail | null> => {
   let client = null;
   try {
-    client = await getClient();
+    client = await getClient(network);
     console.log("Fetching transaction details for hash:", hash);
     
     const response = await client.request({
@@ -21,12 +94,13 @@ export const fetchTransactionDetails = async (hash: string): Promise<Transaction
       binary: false
     });
 
-    if (!response.result) {
-      console.warn("No transaction details found");
+    console.log("Raw transaction details:", response.result);
+
+    // Submitted but not yet in a validated ledger; the page tracks it instead.
+    if (!response.result.validated || !response.result.meta) {
+      console.warn("Transaction is not validated yet:", hash);
       return null;
     }
-
-    console.log("Raw transaction details:", response.result);
     
     const txInfo = response.result;
     // Use tx_json if available; otherwise use the top-level object.
@@ -36,24 +110,29 @@ export const fetchTransactionDetails = async (hash: string): Promise<Transaction
     const memoData = txJson.Memos?.[0]?.Memo?.MemoData;
     const memo = memoData ? hexToAscii(memoData) : undefined;
 
-    const amount = txInfo.meta?.delivered_amount || txJson.Amount || txJson.DeliverMax;
+    const amount = pickAmount(txInfo.meta?.delivered_amount, txJson.DeliverMax, txJson.Amount);
     const feeRaw = txJson.Fee || txJson.fee || "0";
 
     const fromValue = txJson.Account || txJson.account || "Unknown";
-    const destinationValue = txJson.Destination || txJson.destination;
     const typeValue = txJson.TransactionType || txJson.transaction_type;
 
-    const destination = destinationValue || (typeValue === "OfferCreate" ? "XRPL DEX" : "Unknown");
+    const destination = getCounterparty(txJson);
     const finalType = typeValue || "Unknown";
 
     const transactionDetail: TransactionDetail = {
       hash: txInfo.hash,
       type: finalType,
       date: txJson.date ? formatXRPLDate(txJson.date) : txInfo.close_time_iso || "Unknown",
-      amount: formatXRPAmount(amount),
+      amount: formatAmount(amount),
+      parsedAmount: amount,
+      balanceChanges: getTransactionBalanceChanges(txJson, txInfo.meta),
+      offerChanges: getTransactionOfferChanges(txJson, txInfo.meta),
+      createdObjects: getCreatedLedgerObjects(txInfo.meta),
+      isPartialPayment: isPartialPayment(txJson.TransactionType, txJson.Flags),
       fee: formatXRPAmount(feeRaw),
       status: txInfo.meta.TransactionResult,
       sourceTag: txJson.SourceTag?.toString(),
+      destinationTag: txJson.DestinationTag === undefined ? undefined : Number(txJson.DestinationTag),
       from: fromValue,
       to: destination,
       memo,
@@ -62,50 +141,52 @@ export const fetchTransactionDetails = async (hash: string): Promise<Transaction
       flags: Number(txJson.Flags),
       lastLedgerSequence: txJson.LastLedgerSequence,
       ticketSequence: txJson.TicketSequence,
-      memos: txJson.Memos?.map((memoObj: any) =>
-        memoObj.Memo?.MemoData ? hexToAscii(memoObj.Memo.MemoData) : ""
-      ).filter(Boolean) ?? [],
+      ledgerIndex: txInfo.ledger_index ?? txJson.ledger_index,
+      closeTime: toCloseTime(txInfo.close_time_iso, txJson.date),
+      memos: decodeMemos(txJson.Memos),
       raw: txInfo
     };
 
     // Cache the account from the transaction or fallback to a demo address.
     const lastAddress = fromValue !== "Unknown" ? fromValue : "rHNTXD6a7VfFzQK9bNMkX4kYD8nLjhgb32";
-    sessionStorage.setItem(`tx_${hash}`, JSON.stringify(transactionDetail));
-    sessionStorage.setItem("last_accessed_address", lastAddress);
+    sessionStorage.setItem(networkCacheKey(network, `tx_${hash}`), JSON.stringify(transactionDetail));
+    sessionStorage.setItem(networkCacheKey(network, "last_accessed_address"), lastAddress);
 
     console.log("Processed transaction detail:", transactionDetail);
     return transactionDetail;
   } catch (error) {
-    console.error("Error fetching transaction details:", error);
-    toast.error("Failed to fetch transaction details");
-    return null;
-  } finally {
-    if (client) {
-      await client.disconnect();
+    if ((error as { data?: { error?: string } })?.data?.error === "txnNotFound") {
+      return null;
     }
+    console.error("Error fetching transaction details:", error);
+    throw error;
   }
 };
 
 
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-export const fetchTransactions = async (address: string): Promise<Transaction[]> => {
+/**
+ * Fetches one page of account_tx. Unlike the other fetchers this throws on
+ * failure, so callers paging through history can tell an error from the end.
+ */
+export const fetchTransactionsPage = async (
+  address: string,
+  options: TransactionPageOptions = {},
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<TransactionPage> => {
   let client = null;
   try {
-    client = await getClient();
-    console.log(`[XRPL] Fetching transactions for address:`, address);
+    client = await getClient(network);
+    console.log(`[XRPL] Fetching ${network} transactions for address:`, address, options);
 
-    await delay(1500);
-    
     const response = await client.request({
       command: "account_tx",
       account: address,
       binary: false,
-      ledger_index_min: -1,
-      ledger_index_max: -1,
-      limit: 200,
-      forward: false
+      ledger_index_min: options.ledgerIndexMin ?? -1,
+      ledger_index_max: options.ledgerIndexMax ?? -1,
+      limit: options.limit ?? DEFAULT_PAGE_SIZE,
+      forward: options.forward ?? false,
+      ...(options.marker !== undefined && { marker: options.marker })
     });
 
     // Store raw response for debugging
@@ -113,9 +194,11 @@ export const fetchTransactions = async (address: string): Promise<Transaction[]>
     
     console.log("[XRPL] Raw response:", response);
 
+    const marker = response.result?.marker;
+
     if (!response.result?.transactions?.length) {
       console.warn("[XRPL] No transactions found in response");
-      return [];
+      return { transactions: [], marker };
     }
 
     const transactions = response.result.transactions
@@ -135,22 +218,10 @@ export const fetchTransactions = async (address: string): Promise<Transaction[]>
       
       // Check both upper and lower-case keys
       const accountField = txData.Account || txData.account || "Unknown";
-      const destinationField = txData.Destination || txData.destination; 
       const transactionType = txData.TransactionType || txData.transaction_type;
+      const destination = getCounterparty(txData);
     
-      // For 'to', if destinationField is not found, and if it's an OfferCreate, set to "XRPL DEX", else "Unknown"
-      const destination = destinationField ? destinationField : (transactionType === "OfferCreate" ? "XRPL DEX" : "Unknown");
-    
-      let amount = "0";
-      if (meta.delivered_amount) {
-        amount = meta.delivered_amount;
-      } else if (txData.DeliverMax) {
-        amount = txData.DeliverMax;
-      } else if (typeof txData.Amount === "string") {
-        amount = txData.Amount;
-      } else if (txData.Amount?.value) {
-        amount = txData.Amount.value;
-      }
+      const amount = pickAmount(meta.delivered_amount, txData.DeliverMax, txData.Amount);
     
       // Fallback for fee: check both uppercase and lowercase keys
       const feeRaw = txData.Fee || txData.fee || meta.Fee || "0";
@@ -179,13 +250,22 @@ export const fetchTransactions = async (address: string): Promise<Transaction[]>
         hash: hash,
         type: transactionType || "Unknown",
         date: formatXRPLDate(timestamp),
-        amount: formatXRPAmount(amount),
+        amount: formatAmount(amount),
+        parsedAmount: amount,
+        balanceChanges: getTransactionBalanceChanges(txData, meta),
+        offerChanges: getTransactionOfferChanges(txData, meta),
+        createdObjects: getCreatedLedgerObjects(meta),
+        isPartialPayment: isPartialPayment(transactionType, txData.Flags),
         fee: formatXRPAmount(feeRaw),
         status: meta.TransactionResult,
         sourceTag: txData.SourceTag?.toString(),
+        destinationTag: txData.DestinationTag === undefined ? undefined : Number(txData.DestinationTag),
         from: accountField,
         to: destination,
         memo: memo || undefined,
+        memos: decodeMemos(txData.Memos),
+        ledgerIndex: tx.ledger_index,
+        closeTime: toCloseTime(closeTimeIso, txData.date),
         isBitbob
       } as Transaction;
     })
@@ -200,16 +280,83 @@ export const fetchTransactions = async (address: string): Promise<Transaction[]>
   
 
     console.log(`[XRPL] Successfully processed ${transactions.length} transactions`);
-    return transactions;
+    return { transactions, marker };
+
+  } catch (error) {
+    console.error("[XRPL] Error fetching transactions page:", error);
+    throw error;
+  }
+};
+
+/**
+ * Walks an account's history page by page until the server stops returning a
+ * marker, i.e. back to the account's first transaction with the defaults.
+ */
+export async function* iterateTransactionPages(
+  address: string,
+  options: Omit<TransactionPageOptions, "marker"> = {},
+  network: NetworkId = DEFAULT_NETWORK
+): AsyncGenerator<TransactionPage> {
+  let marker: unknown = undefined;
+  do {
+    const page = await fetchTransactionsPage(address, { ...options, marker }, network);
+    yield page;
+    marker = page.marker;
+  } while (marker !== undefined && marker !== null);
+}
+
+export async function* iterateTransactions(
+  address: string,
+  options: Omit<TransactionPageOptions, "marker"> = {},
+  network: NetworkId = DEFAULT_NETWORK
+): AsyncGenerator<Transaction> {
+  for await (const page of iterateTransactionPages(address, options, network)) {
+    yield* page.transactions;
+  }
+}
 
+/**
+ * Collects the account's history newest first, stopping at the first
+ * transaction that closed before `since`. `complete` is false when the walk
+ * stopped there or was aborted rather than reaching the first transaction.
+ * Throws if a page fails, since callers summarise the whole range.
+ */
+export const collectTransactions = async (
+  address: string,
+  { since, ...options }: Omit<TransactionPageOptions, "marker" | "forward"> & { since?: Date } = {},
+  network: NetworkId = DEFAULT_NETWORK,
+  onProgress?: (scanned: number) => void,
+  signal?: AbortSignal
+): Promise<{ transactions: Transaction[]; complete: boolean }> => {
+  const transactions: Transaction[] = [];
+  let scanned = 0;
+
+  for await (const page of iterateTransactionPages(address, options, network)) {
+    if (signal?.aborted) return { transactions, complete: false };
+    for (const transaction of page.transactions) {
+      if (since && transaction.closeTime && new Date(transaction.closeTime) < since) {
+        onProgress?.(scanned + page.transactions.length);
+        return { transactions, complete: false };
+      }
+      transactions.push(transaction);
+    }
+    scanned += page.transactions.length;
+    onProgress?.(scanned);
+  }
+
+  return { transactions, complete: true };
+};
+
+export const fetchTransactions = async (
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<Transaction[]> => {
+  try {
+    const { transactions } = await fetchTransactionsPage(address, {}, network);
+    return transactions;
   } catch (error) {
     console.error("[XRPL] Error fetching transactions:", error);
     toast.error("Failed to fetch transactions");
     return [];
-  } finally {
-    if (client) {
-      await client.disconnect();
-      console.log("[XRPL] Client disconnected");
-    }
   }
 };
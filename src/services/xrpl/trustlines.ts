@@ -0,0 +1,58 @@
+import { toast } from "sonner";
+import { getClient } from "./connection";
+import { DEFAULT_NETWORK } from "./networks";
+import type { NetworkId, TrustLine } from "./types";
+
+const LINES_PAGE_SIZE = 400;
+
+export const fetchTrustLines = async (
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<TrustLine[]> => {
+  try {
+    const client = await getClient(network);
+    console.log(`[XRPL] Fetching ${network} trust lines for address:`, address);
+
+    const lines: TrustLine[] = [];
+    let marker: unknown = undefined;
+    do {
+      const response = await client.request({
+        command: "account_lines",
+        account: address,
+        ledger_index: "validated",
+        limit: LINES_PAGE_SIZE,
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const line of response.result.lines) {
+        lines.push({
+          currency: line.currency,
+          counterparty: line.account,
+          balance: line.balance,
+          limit: line.limit,
+          limitPeer: line.limit_peer,
+          qualityIn: line.quality_in ?? 0,
+          qualityOut: line.quality_out ?? 0,
+          noRipple: Boolean(line.no_ripple),
+          noRipplePeer: Boolean(line.no_ripple_peer),
+          authorized: Boolean(line.authorized),
+          peerAuthorized: Boolean(line.peer_authorized),
+          freeze: Boolean(line.freeze),
+          freezePeer: Boolean(line.freeze_peer)
+        });
+      }
+      marker = response.result.marker;
+    } while (marker !== undefined && marker !== null);
+
+    console.log(`[XRPL] Loaded ${lines.length} trust lines for ${address}`);
+    return lines;
+  } catch (error) {
+    // Unfunded accounts have no lines; rippled reports them as actNotFound.
+    if ((error as { data?: { error?: string } })?.data?.error === "actNotFound") {
+      return [];
+    }
+    console.error("[XRPL] Error fetching trust lines:", error);
+    toast.error("Failed to fetch trust lines");
+    return [];
+  }
+};
@@ -8,47 +8,442 @@ import type {
   TransactionMetadata
 } from 'xrpl';
 
+export interface AffectedNodeBody {
+  LedgerEntryType: string;
+  LedgerIndex: string;
+  FinalFields?: Record<string, unknown>;
+  PreviousFields?: Record<string, unknown>;
+  NewFields?: Record<string, unknown>;
+}
+
+export interface AffectedNode {
+  CreatedNode?: AffectedNodeBody;
+  ModifiedNode?: AffectedNodeBody;
+  DeletedNode?: AffectedNodeBody;
+}
+
 export interface XRPLTransactionMeta {
   TransactionResult: string;
-  AffectedNodes: Array<{
-    ModifiedNode?: {
-      FinalFields: {
-        Balance: string;
-        Flags: number;
-        OwnerCount: number;
-        Sequence: number;
-      };
-    };
-  }>;
+  TransactionIndex?: number;
+  AffectedNodes: AffectedNode[];
+  delivered_amount?: unknown;
+}
+
+export interface BalanceChange {
+  account: string;
+  currency: string;
+  // Empty for XRP.
+  issuer: string;
+  // Signed decimal in whole units (XRP, not drops).
+  value: string;
+  isFee?: boolean;
+}
+
+export interface DecodedFlag {
+  name: string;
+  value: number;
+  description: string;
+  // Set for flags a reader should be alerted to, e.g. tfPartialPayment.
+  warning?: boolean;
+}
+
+export interface XRPAmount {
+  kind: 'xrp';
+  drops: string;
 }
 
+export interface IssuedAmount {
+  kind: 'iou';
+  currency: string;
+  issuer: string;
+  value: string;
+}
+
+export type Amount = XRPAmount | IssuedAmount;
+
 export interface Transaction {
   hash: string;
   type: string;
   date: string;
   amount: string;
+  parsedAmount?: Amount;
+  balanceChanges?: BalanceChange[];
+  offerChanges?: OfferChange[];
+  // Ledger entry IDs this transaction created, e.g. the escrow or channel it opened.
+  createdObjects?: string[];
+  isPartialPayment?: boolean;
   fee: string;
   status: string;
   sourceTag?: string;
+  destinationTag?: number;
   from: string;
   to: string;
   memo?: string;
+  memos?: string[];
+  // Ledger the transaction was validated in.
+  ledgerIndex?: number;
+  // ISO 8601 close time of that ledger.
+  closeTime?: string;
   isBitbob: boolean;
 }
 
+export interface TransactionPageOptions {
+  limit?: number;
+  marker?: unknown;
+  ledgerIndexMin?: number;
+  ledgerIndexMax?: number;
+  forward?: boolean;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  marker?: unknown;
+}
+
 export interface TransactionDetail extends Transaction {
   sequence: number;
-  memos?: string[];
   flags: number;
   lastLedgerSequence?: number;
   ticketSequence?: number;
   raw: any;
 }
 
+export interface DecodedAddress {
+  classicAddress: string;
+  // Destination tag carried by an X-address, if any.
+  tag?: number;
+  isXAddress: boolean;
+  // X-addresses encode whether they are meant for a test network.
+  isTestNetwork?: boolean;
+}
+
+export type SearchResultKind =
+  | 'account'
+  | 'xaddress'
+  | 'transaction'
+  | 'ledger'
+  | 'nft'
+  | 'lpToken'
+  | 'domain';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  // The value to navigate with, e.g. the classic address behind a domain.
+  value: string;
+  label: string;
+  description?: string;
+  // Network-relative route; unset when the explorer has no page for the kind yet.
+  path?: string;
+  // False for guesses from the input's shape that the network did not confirm.
+  verified: boolean;
+}
+
+export type TransactionTrackingState = 'pending' | 'validated' | 'expired' | 'notFound';
+
+export interface TransactionTrackingStatus {
+  state: TransactionTrackingState;
+  // Latest validated ledger at the time of the check.
+  currentLedger: number;
+  // Validated ledger when tracking began, for progress towards lastLedgerSequence.
+  startLedger: number;
+  lastLedgerSequence?: number;
+  // Whether the server has the transaction at all (queued or in an open ledger).
+  seen: boolean;
+  // Ledger the transaction was validated in.
+  ledgerIndex?: number;
+}
+
+export interface LedgerTransaction {
+  hash: string;
+  type: string;
+  account: string;
+  destination?: string;
+  result: string;
+  fee: string;
+  transactionIndex?: number;
+}
+
+export interface LedgerDetail {
+  index: number;
+  hash: string;
+  parentHash: string;
+  closeTime: string;
+  closeTimeResolution?: number;
+  totalCoins: string;
+  validated: boolean;
+  transactionCount: number;
+  typeBreakdown: Array<{ type: string; count: number }>;
+  transactions: LedgerTransaction[];
+}
+
+export interface NFToken {
+  id: string;
+  flags: number;
+  // In units of 1/100,000 (50000 = 50%).
+  transferFee: number;
+  issuer: string;
+  taxon: number;
+  serial: number;
+  // Hex-decoded URI, usually ipfs:// or https://.
+  uri?: string;
+  owner?: string;
+  isBurned?: boolean;
+}
+
+export interface NFTMetadata {
+  name?: string;
+  description?: string;
+  // Resolved to an http(s) URL through the IPFS gateway where needed.
+  image?: string;
+  attributes?: Array<{ trait_type?: string; value?: unknown }>;
+}
+
+export interface NFTOffer {
+  index: string;
+  amount: Amount;
+  owner: string;
+  destination?: string;
+  expiration?: number;
+  isSellOffer: boolean;
+}
+
+export interface NFTHistoryEntry {
+  hash: string;
+  type: string;
+  account: string;
+  destination?: string;
+  ledgerIndex: number;
+  date: string;
+  result: string;
+}
+
+export interface NFTHistory {
+  entries: NFTHistoryEntry[];
+  // More entries exist than were read; see MAX_HISTORY_PAGES.
+  hasMore: boolean;
+}
+
+// One side of a DEX pair; XRP has no issuer.
+export interface BookAsset {
+  currency: string;
+  issuer?: string;
+}
+
+// A resting offer, expressed against the pair: `amount` is in the base asset
+// and `price` in counter units per base unit.
+export interface OrderBookOffer {
+  index: string;
+  account: string;
+  sequence: number;
+  price: number;
+  amount: number;
+  total: number;
+}
+
+export interface OrderBook {
+  // Offers buying the base asset, best (highest) price first.
+  bids: OrderBookOffer[];
+  // Offers selling the base asset, best (lowest) price first.
+  asks: OrderBookOffer[];
+  ledgerIndex?: number;
+}
+
+export interface DexTrade {
+  id: string;
+  hash: string;
+  ledgerIndex: number;
+  taker: string;
+  maker: string;
+  // 'buy' when the taker bought the base asset.
+  side: 'buy' | 'sell';
+  price: number;
+  amount: number;
+  total: number;
+}
+
+export interface AccountOffer {
+  sequence: number;
+  flags: number;
+  // What the owner is selling and asking for; the remaining, not the original, amounts.
+  takerGets: Amount;
+  takerPays: Amount;
+  // TakerPays units asked per TakerGets unit, in whole XRP or token units.
+  rate: number;
+  expiration?: number;
+}
+
+export type OfferChangeKind = 'created' | 'partiallyFilled' | 'filled' | 'cancelled' | 'removed';
+
+// What one transaction did to one Offer entry, read from its metadata.
+export interface OfferChange {
+  owner: string;
+  sequence: number;
+  kind: OfferChangeKind;
+  // For fills: what the owner gave (out of TakerGets) and received (out of TakerPays).
+  sold?: Amount;
+  bought?: Amount;
+}
+
+export interface OfferHistoryEntry extends OfferChange {
+  hash: string;
+  date: string;
+}
+
+export interface AMMVoteSlot {
+  account: string;
+  // Both in units of 1/100,000: the fee voted for and the voter's share of LP tokens.
+  tradingFee: number;
+  voteWeight: number;
+}
+
+export interface AMMAuctionSlot {
+  account: string;
+  authAccounts: string[];
+  discountedFee: number;
+  expiration: string;
+  price: Amount;
+  // Which of the slot's 20 intervals is current; the refund on outbid shrinks with it.
+  timeInterval: number;
+}
+
+export interface AMMPool {
+  account: string;
+  // Current reserves of the pool's two assets.
+  amount: Amount;
+  amount2: Amount;
+  lpToken: IssuedAmount;
+  // In units of 1/100,000 (1000 = 1%).
+  tradingFee: number;
+  assetFrozen: boolean;
+  asset2Frozen: boolean;
+  voteSlots: AMMVoteSlot[];
+  auctionSlot?: AMMAuctionSlot;
+}
+
+export interface TrustLine {
+  currency: string;
+  // The other side of the line; for a holder this is the token issuer.
+  counterparty: string;
+  balance: string;
+  limit: string;
+  limitPeer: string;
+  qualityIn: number;
+  qualityOut: number;
+  noRipple: boolean;
+  noRipplePeer: boolean;
+  authorized: boolean;
+  peerAuthorized: boolean;
+  freeze: boolean;
+  freezePeer: boolean;
+}
+
+// account_objects entries; typed loosely because newer amendments add entry types faster than xrpl.js models them.
+export interface LedgerObject {
+  LedgerEntryType: string;
+  index: string;
+  Flags?: number;
+  [field: string]: unknown;
+}
+
+// Times below are seconds since the Ripple epoch, as stored on the ledger.
+export interface EscrowObject {
+  index: string;
+  account: string;
+  destination: string;
+  amount: Amount;
+  finishAfter?: number;
+  cancelAfter?: number;
+  // PREIMAGE-SHA-256 crypto-condition the finishing transaction must fulfil.
+  condition?: string;
+  destinationTag?: number;
+  previousTxnId: string;
+}
+
+export interface CheckObject {
+  index: string;
+  account: string;
+  destination: string;
+  sendMax: Amount;
+  expiration?: number;
+  invoiceId?: string;
+  destinationTag?: number;
+  previousTxnId: string;
+}
+
+export interface PaymentChannelObject {
+  index: string;
+  account: string;
+  destination: string;
+  // Total XRP funded into the channel and the part already paid out.
+  amount: Amount;
+  balance: Amount;
+  // Seconds the source must wait to close a channel that still holds XRP.
+  settleDelay: number;
+  publicKey: string;
+  expiration?: number;
+  cancelAfter?: number;
+  destinationTag?: number;
+  previousTxnId: string;
+}
+
+export interface PaymentObjects {
+  escrows: EscrowObject[];
+  checks: CheckObject[];
+  channels: PaymentChannelObject[];
+}
+
+export interface NetworkReserves {
+  baseReserveXRP: number;
+  ownerReserveXRP: number;
+  source: 'server_info' | 'FeeSettings' | 'default';
+}
+
+export interface ReserveBreakdownItem {
+  type: string;
+  count: number;
+  ownerCount: number;
+  reserve: string;
+}
+
+export interface ReserveSuggestion {
+  // Transaction type that removes the object.
+  transaction: string;
+  description: string;
+  // False when something has to happen first, e.g. a balance returned or a cancel time reached.
+  ready: boolean;
+}
+
+export interface OwnedObject {
+  index: string;
+  type: string;
+  summary: string;
+  ownerCount: number;
+  reserve: string;
+  suggestion?: ReserveSuggestion;
+}
+
+// Loaded separately from the balance, since listing the objects pages through account_objects.
+export interface ReserveInventory {
+  breakdown: ReserveBreakdownItem[];
+  // Every object charged to the account's owner reserve, largest first.
+  ownedObjects: OwnedObject[];
+  // Reserve the ready suggestions would release.
+  freeableReserve: string;
+}
+
 export interface BalanceDetails {
   total: string;
   available: string;
   reserve: string;
+  baseReserve?: string;
+  ownerReserve?: string;
+  ownerCount?: number;
+  // From the first page of owned objects only; anything past it is counted as "Other".
+  reserveBreakdown?: ReserveBreakdownItem[];
+  // AccountRoot Flags bitmask; decode with decodeAccountRootFlags.
+  flags?: number;
+  // Set only on the pseudo-account of an AMM pool.
+  ammId?: string;
 }
 
 export type { 
@@ -59,3 +454,14 @@ export type {
   Payment,
   TransactionMetadata
 };
+
+export type NetworkId = 'mainnet' | 'testnet' | 'devnet' | 'custom';
+
+export interface XRPLNetwork {
+  id: NetworkId;
+  name: string;
+  servers: readonly string[];
+  explorerLabel: string;
+  hasFaucet: boolean;
+  faucetUrl?: string;
+}
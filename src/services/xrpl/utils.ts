@@ -1,41 +1,46 @@
 
-import { Client, isValidClassicAddress } from 'xrpl';
-import { XRPL_SERVERS } from './config';
+import { isValidClassicAddress, isValidXAddress, rippleTimeToUnixTime, xAddressToClassicAddress } from 'xrpl';
+import { formatAmount, parseAmount } from './amount';
+import type { DecodedAddress, NetworkId } from './types';
 
 export const validateXRPLAddress = (address: string): boolean => {
-  return isValidClassicAddress(address);
+  return isValidClassicAddress(address) || isValidXAddress(address);
 };
 
-export const getClient = async (): Promise<Client> => {
-  const shuffledServers = [...XRPL_SERVERS].sort(() => Math.random() - 0.5);
-  
-  for (const server of shuffledServers) {
-    try {
-      const client = new Client(server);
-      await client.connect();
-      console.log(`Connected to ${server}`);
-      return client;
-    } catch (error) {
-      console.error(`Failed to connect to ${server}:`, error);
-      continue;
-    }
+/**
+ * Normalises a classic or X-address to its classic form, keeping the
+ * destination tag an X-address carries. Returns null for anything else.
+ */
+export const decodeXRPLAddress = (address: string): DecodedAddress | null => {
+  if (isValidClassicAddress(address)) {
+    return { classicAddress: address, isXAddress: false };
   }
-  throw new Error("Could not connect to any XRPL server");
+  if (isValidXAddress(address)) {
+    const { classicAddress, tag, test } = xAddressToClassicAddress(address);
+    return { classicAddress, tag: tag === false ? undefined : tag, isXAddress: true, isTestNetwork: test };
+  }
+  return null;
 };
 
-export const formatXRPAmount = (amount: string | number | { value: string } | undefined): string => {
+// An X-address minted for a test network should not be used on mainnet, and vice versa.
+export const isXAddressNetworkMismatch = (decoded: DecodedAddress, network: NetworkId): boolean =>
+  decoded.isXAddress && network !== 'custom' && decoded.isTestNetwork !== (network !== 'mainnet');
+
+export const formatXRPAmount = (amount: string | number | { currency?: string; value: string } | undefined): string => {
   if (!amount) return '0.000000 XRP';
-  
-  let amountValue: number;
-  if (typeof amount === 'object' && 'value' in amount) {
-    amountValue = parseFloat(amount.value);
-  } else {
-    amountValue = typeof amount === 'string' ? parseFloat(amount) : amount;
+
+  // Issued-currency objects are not drops; format them with their own currency.
+  if (typeof amount === 'object') {
+    return formatAmount(parseAmount(amount));
   }
-  
+
+  const amountValue = typeof amount === 'string' ? parseFloat(amount) : amount;
   return `${(amountValue / 1_000_000).toFixed(6)} XRP`;
 };
 
+export const shortenAddress = (address: string, visible = 8): string =>
+  address && address.length > visible ? `${address.substring(0, visible)}...` : address;
+
 export const formatXRPLDate = (rippleEpochDate: number): string => {
   try {
     const unixTimestamp = (rippleEpochDate + 946684800) * 1000;
@@ -46,6 +51,9 @@ export const formatXRPLDate = (rippleEpochDate: number): string => {
   }
 };
 
+export const hasRippleTimePassed = (rippleEpochDate: number, now = Date.now()): boolean =>
+  rippleTimeToUnixTime(rippleEpochDate) <= now;
+
 export const hexToAscii = (hex: string): string => {
   let ascii = '';
   for (let i = 0; i < hex.length; i += 2) {